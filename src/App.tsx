@@ -1,12 +1,16 @@
 import './App.css';
+import { DirectionProvider } from '@radix-ui/react-direction';
 import AlzheimersDetectionSystem from '@/components/AlzheimersDetectionSystem';
+import { getDirection, useI18nStore } from '@/lib/i18n';
 
 function App() {
+  const language = useI18nStore((state) => state.language);
+
   return (
-    <>
+    <DirectionProvider dir={getDirection(language)}>
       <AlzheimersDetectionSystem />
-    </>
+    </DirectionProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
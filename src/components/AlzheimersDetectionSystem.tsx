@@ -1,218 +1,380 @@
-import { useState } from 'react';
-import { Upload, Mic, AlertCircle, Square, Brain, Info } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import {
+  Upload,
+  Mic,
+  MicOff,
+  AlertCircle,
+  Square,
+  Pause,
+  Play,
+  Brain,
+  Info,
+  Loader2,
+  Phone,
+} from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import LanguageSelector from '@/components/LanguageSelector';
+import RecordingErrorAlert from '@/components/RecordingErrorAlert';
+import AudioLevelMeter from '@/components/AudioLevelMeter';
+import CalibrationPanel from '@/components/CalibrationPanel';
+import AudioReview, { type ReviewedAudio } from '@/components/AudioReview';
+import UploadQueue from '@/components/UploadQueue';
 import { useI18nStore, TranslationKey } from '@/lib/i18n';
+import { deviceConstraints, useRecordingSettingsStore } from '@/lib/recording-settings';
+import { usePreprocessingSettingsStore } from '@/lib/preprocessing-settings';
+import { calibrationMessageParams } from '@/lib/audio/calibration';
+import { trimSegments, type Recording } from '@/lib/audio/recorder';
+import { LONG_PAUSE_SECONDS, PAUSE_BIN_EDGES } from '@/lib/audio/pauses';
+import { MIN_SPEECH_SECONDS, voicedDuration } from '@/lib/audio/vad';
+import { decodeAudioFile, MAX_UPLOAD_SECONDS, type DecodedAudio } from '@/lib/audio/decode';
+import { AudioFileError, AudioQualityError, type AudioFileErrorCode } from '@/lib/audio/errors';
+import type { QualityIssue } from '@/lib/audio/quality';
+import { TELEPHONE_PROFILE } from '@/lib/audio/profiles';
+import { useRecorder } from '@/hooks/use-recorder';
+import { useAudioDevices } from '@/hooks/use-audio-devices';
+import { useMicrophonePreview } from '@/hooks/use-microphone-preview';
+import { useCalibration } from '@/hooks/use-calibration';
+import { useUploadQueue, type ProcessUpload } from '@/hooks/use-upload-queue';
+import type { AnalysisProgress, AnalysisResult, AnalysisStage, CaptureDetails } from '@/lib/analysis';
+import { analyzeDecoded } from '@/lib/analysis-client';
 
-// Define types for better type safety
-interface VoiceBiomarker {
-  name: TranslationKey;
-  value: number;
-  weight: number;
-  description: TranslationKey;
+// A recorded or uploaded sample waiting to be trimmed and confirmed
+interface PendingReview {
+  audio: Blob;
+  // Decoded once on arrival; review and analysis both work from this
+  decoded: DecodedAudio;
+  source: 'recording' | 'upload';
+  capture: CaptureDetails;
 }
 
-interface AnalysisResult {
-  score: number;
-  risk: 'High' | 'Moderate' | 'Low';
-  confidence: number;
-  indicators: {
-    speechClarity: number;
-    wordRecall: number;
-    sentenceStructure: number;
-    pausePatterns: number;
-    prosody: number;
-    articulationRate: number;
-    voiceQuality: number;
-    semanticCoherence: number;
-  };
-  biomarkers: VoiceBiomarker[];
-  detected: boolean;
-}
+// Selectable recording lengths, in seconds
+const recordingDurations = [15, 30, 60, 90];
+// Selectable trailing-silence lengths for auto-stop, in seconds
+const silenceDurations = [2, 3, 5];
+
+const uploadErrorMessages: Record<AudioFileErrorCode, TranslationKey> = {
+  empty: 'uploadEmpty',
+  'unsupported-format': 'uploadUnsupportedFormat',
+  corrupt: 'uploadCorrupt',
+  'too-long': 'uploadTooLong',
+  'too-little-speech': 'uploadTooLittleSpeech',
+};
+
+// Queued files skip the review step, so the speech check happens here instead
+const processUpload: ProcessUpload<AnalysisResult> = async (file, signal, onStage) => {
+  const decoded = await decodeAudioFile(file);
+  if (voicedDuration(decoded.samples, decoded.sampleRate) < MIN_SPEECH_SECONDS) {
+    throw new AudioFileError('too-little-speech');
+  }
+  return analyzeDecoded(decoded, {}, {
+    signal,
+    onProgress: ({ progress }) => onStage('analyzing', progress),
+    preprocessing: usePreprocessingSettingsStore.getState().options,
+  });
+};
+
+const qualityIssueMessages: Record<QualityIssue, TranslationKey> = {
+  noisy: 'qualityIssueNoisy',
+  clipping: 'qualityIssueClipping',
+  reverberant: 'qualityIssueReverberant',
+  short: 'qualityIssueShort',
+  dropouts: 'qualityIssueDropouts',
+  narrowband: 'qualityIssueNarrowband',
+};
+
+const roundTenths = (value: number) => Math.round(value * 10) / 10;
+
+// Speech pattern indicators shown in the results, in display order
+const indicatorCards: (keyof AnalysisResult['indicators'] & TranslationKey)[] = [
+  'speechClarity',
+  'wordRecall',
+  'sentenceStructure',
+  'pausePatterns',
+  'prosody',
+  'articulationRate',
+  'semanticCoherence',
+];
+
+const stageLabels: Record<AnalysisStage, TranslationKey> = {
+  decoding: 'stageDecoding',
+  quality: 'stageQuality',
+  preprocessing: 'stagePreprocessing',
+  'voice-activity': 'stageVoiceActivity',
+  acoustic: 'stageAcoustic',
+  scoring: 'stageScoring',
+};
 
 export default function AlzheimersDetectionSystem() {
   const { t } = useI18nStore();
-  const [isRecording, setIsRecording] = useState(false);
-  const [recordingTime, setRecordingTime] = useState(0);
   const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
-  const [uploadedFile, setUploadedFile] = useState<File | null>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [uploadedFile, setUploadedFile] = useState<{ file: File; decoded: DecodedAudio } | null>(
+    null
+  );
+  const [isDecoding, setIsDecoding] = useState(false);
+  // Null unless an analysis is running
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [comment, setComment] = useState('');
   const [recordingDuration, setRecordingDuration] = useState(30); // Default 30 seconds
+  const [review, setReview] = useState<PendingReview | null>(null);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // Identifies the take being decoded for review. Starting anything else clears
+  // it, so a decode that finishes afterwards does not replace what followed
+  const pendingDecodeRef = useRef<object | null>(null);
 
-  // Enhanced analysis function with more sophisticated biomarkers
-  const analyzeAudio = (audioData: any) => {
-    setIsProcessing(true);
-    
-    // Simulate processing delay
-    setTimeout(() => {
-      // In a real implementation, this would process actual audio data
-      // and extract meaningful biomarkers using ML models
-      
-      // Generate biomarkers with weighted importance
-      const biomarkers: VoiceBiomarker[] = [
-        {
-          name: "phonemeArticulation",
-          value: generateWeightedValue(65, 95),
-          weight: 0.15,
-          description: "phonemeArticulationDesc"
-        },
-        {
-          name: "pauseFrequency",
-          value: generateWeightedValue(60, 90),
-          weight: 0.12,
-          description: "pauseFrequencyDesc"
-        },
-        {
-          name: "lexicalDiversity",
-          value: generateWeightedValue(70, 95),
-          weight: 0.13,
-          description: "lexicalDiversityDesc"
-        },
-        {
-          name: "speechRateConsistency",
-          value: generateWeightedValue(65, 90),
-          weight: 0.10,
-          description: "speechRateConsistencyDesc"
-        },
-        {
-          name: "semanticCoherenceBio",
-          value: generateWeightedValue(60, 95),
-          weight: 0.18,
-          description: "semanticCoherenceBioDesc"
-        },
-        {
-          name: "prosodicVariation",
-          value: generateWeightedValue(70, 90),
-          weight: 0.12,
-          description: "prosodicVariationDesc"
-        },
-        {
-          name: "voiceTremor",
-          value: generateWeightedValue(75, 95),
-          weight: 0.10,
-          description: "voiceTremorDesc"
-        },
-        {
-          name: "wordFindingDelay",
-          value: generateWeightedValue(60, 90),
-          weight: 0.10,
-          description: "wordFindingDelayDesc"
-        }
-      ];
-      
-      // Calculate weighted score based on biomarkers
-      const weightedScore = calculateWeightedScore(biomarkers);
-      
-      // Determine risk level based on weighted score
-      let risk: 'High' | 'Moderate' | 'Low';
-      if (weightedScore < 70) {
-        risk = 'High';
-      } else if (weightedScore < 85) {
-        risk = 'Moderate';
-      } else {
-        risk = 'Low';
-      }
-      
-      // Calculate confidence based on recording quality and duration
-      const confidenceBase = 85;
-      const confidenceVariation = 10;
-      const confidence = Math.min(98, Math.max(80, 
-        confidenceBase + (Math.random() * confidenceVariation - confidenceVariation/2)
-      ));
-      
-      // Generate indicator values that are consistent with the overall score
-      const indicators = {
-        speechClarity: generateConsistentValue(weightedScore, 10),
-        wordRecall: generateConsistentValue(weightedScore, 15),
-        sentenceStructure: generateConsistentValue(weightedScore, 12),
-        pausePatterns: generateConsistentValue(weightedScore, 8),
-        prosody: generateConsistentValue(weightedScore, 10),
-        articulationRate: generateConsistentValue(weightedScore, 7),
-        voiceQuality: generateConsistentValue(weightedScore, 9),
-        semanticCoherence: generateConsistentValue(weightedScore, 14)
-      };
-      
-      // Determine if Alzheimer's is detected based on weighted score
-      // Using a more conservative threshold for detection
-      const detected = weightedScore < 78;
-      
-      const result: AnalysisResult = {
-        score: weightedScore,
-        risk,
-        confidence: Math.round(confidence),
-        indicators,
-        biomarkers,
-        detected
-      };
-      
+  const cancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+    analysisAbortRef.current = null;
+    setAnalysisProgress(null);
+  };
+
+  const analyzeAudio = async (decoded: DecodedAudio, capture: CaptureDetails = {}) => {
+    cancelAnalysis();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setError(null);
+    try {
+      const result = await analyzeDecoded(decoded, capture, {
+        signal: controller.signal,
+        onProgress: setAnalysisProgress,
+        preprocessing: usePreprocessingSettingsStore.getState().options,
+      });
       setAnalysis(result);
-      setIsProcessing(false);
-    }, 2000);
+    } catch (analysisError) {
+      // A cancelled analysis was replaced by whatever the user started instead
+      if (!controller.signal.aborted) setError(describeAudioError(analysisError));
+    } finally {
+      if (analysisAbortRef.current === controller) {
+        analysisAbortRef.current = null;
+        setAnalysisProgress(null);
+      }
+    }
+  };
+
+  const {
+    deviceId: preferredDeviceId,
+    autoStopOnSilence,
+    silenceSeconds,
+    setDeviceId,
+    setAutoStopOnSilence,
+    setSilenceSeconds,
+  } = useRecordingSettingsStore();
+  const { devices, refresh: refreshDevices } = useAudioDevices();
+  // A remembered device that has since been unplugged falls back to the default.
+  // Before permission is granted the list may be empty, so trust the stored id
+  const deviceId =
+    devices.length === 0 || devices.some((device) => device.deviceId === preferredDeviceId)
+      ? preferredDeviceId
+      : null;
+  const preview = useMicrophonePreview(deviceConstraints(deviceId));
+  const calibration = useCalibration(deviceConstraints(deviceId));
+  const recorder = useRecorder({
+    maxDuration: recordingDuration,
+    constraints: deviceConstraints(deviceId),
+    autoStop: autoStopOnSilence ? { silenceSeconds, minSpeechSeconds: MIN_SPEECH_SECONDS } : null,
+    onComplete: (recording) => reviewRecording(recording),
+  });
+  const recorderStatus = recorder.state.status;
+  const isRecording = recorderStatus === 'recording' || recorderStatus === 'paused';
+  const microphoneError =
+    recorder.state.status === 'error'
+      ? recorder.state.error
+      : calibration.state.status === 'error'
+        ? calibration.state.error
+        : preview.error;
+  // An unsuitable environment blocks recording until the check passes or is cleared
+  const calibrationBlocked = calibration.result?.verdict === 'block';
+  const activeStream = recorder.stream ?? preview.stream;
+
+  // Device labels only become readable once the microphone has been opened
+  useEffect(() => {
+    if (activeStream) refreshDevices();
+  }, [activeStream, refreshDevices]);
+
+  const describeAudioError = (audioError: unknown) => {
+    if (audioError instanceof AudioFileError) {
+      return t(uploadErrorMessages[audioError.code], {
+        max: MAX_UPLOAD_SECONDS,
+        required: MIN_SPEECH_SECONDS,
+      });
+    }
+    if (audioError instanceof AudioQualityError) {
+      return [
+        t('qualityTooLow'),
+        ...audioError.report.issues.map((issue) => t(qualityIssueMessages[issue])),
+      ].join(' ');
+    }
+    return t('analysisFailed');
   };
 
-  // Generate a value that's weighted toward the higher end of the range
-  const generateWeightedValue = (min: number, max: number): number => {
-    // This creates a distribution that favors higher values
-    const raw = Math.pow(Math.random(), 0.7); // Power < 1 skews toward higher values
-    return Math.round(min + raw * (max - min));
+  const uploadQueue = useUploadQueue(processUpload);
+
+  // Nothing reaches analysis without being played back and confirmed first
+  const beginReview = (pending: PendingReview) => {
+    setError(null);
+    setReview(pending);
   };
-  
-  // Generate a value that's consistent with the overall score but with some variation
-  const generateConsistentValue = (baseValue: number, variation: number): number => {
-    const min = Math.max(0, baseValue - variation);
-    const max = Math.min(100, baseValue + variation);
-    return Math.round(min + Math.random() * (max - min));
+
+  const cancelDecode = () => {
+    pendingDecodeRef.current = null;
+    setIsDecoding(false);
   };
-  
-  // Calculate weighted score from biomarkers
-  const calculateWeightedScore = (biomarkers: VoiceBiomarker[]): number => {
-    let totalWeight = 0;
-    let weightedSum = 0;
-    
-    biomarkers.forEach(marker => {
-      weightedSum += marker.value * marker.weight;
-      totalWeight += marker.weight;
+
+  const reviewRecording = async ({ blob, segments }: Recording) => {
+    const pending = {};
+    pendingDecodeRef.current = pending;
+    try {
+      const decoded = await decodeAudioFile(blob);
+      if (pendingDecodeRef.current !== pending) return;
+      beginReview({
+        audio: blob,
+        decoded,
+        source: 'recording',
+        capture: {
+          calibration: calibration.result?.metrics ?? null,
+          noiseProfile: calibration.result?.noiseProfile ?? null,
+          segments,
+        },
+      });
+    } catch (decodeError) {
+      if (pendingDecodeRef.current !== pending) return;
+      setError(
+        decodeError instanceof AudioFileError && decodeError.code === 'empty'
+          ? t('emptyRecording')
+          : describeAudioError(decodeError)
+      );
+    } finally {
+      if (pendingDecodeRef.current === pending) pendingDecodeRef.current = null;
+    }
+  };
+
+  const analyzeReviewed = ({ decoded, start, end, speechSeconds }: ReviewedAudio) => {
+    if (!review) return;
+    // Too little speech cannot be scored meaningfully; keep the take open for re-recording
+    if (speechSeconds < MIN_SPEECH_SECONDS) {
+      setError(t('notEnoughSpeech', { detected: speechSeconds, required: MIN_SPEECH_SECONDS }));
+      return;
+    }
+    const { segments } = review.capture;
+    setReview(null);
+    analyzeAudio(decoded, {
+      ...review.capture,
+      segments: segments ? trimSegments(segments, start, end) : null,
     });
-    
-    return Math.round(weightedSum / totalWeight);
+  };
+
+  const discardReview = () => {
+    const source = review?.source;
+    cancelDecode();
+    setReview(null);
+    if (source === 'recording') startRecording();
+    else fileInputRef.current?.click();
+  };
+
+  // A lone file goes through review as before; batches, and anything added
+  // while a batch is listed, are queued and analyzed without review
+  const handleFiles = (files: File[]) => {
+    if (files.length === 0) return;
+    cancelAnalysis();
+    cancelDecode();
+    if (files.length === 1 && uploadQueue.items.length === 0) {
+      uploadSingleFile(files[0]);
+      return;
+    }
+    setError(null);
+    uploadQueue.add(files);
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type.startsWith('audio/')) {
-      setUploadedFile(file);
-      analyzeAudio(file);
-    } else {
-      setError(t('invalidAudioFile'));
+    const files = Array.from(event.target.files ?? []);
+    // Allow choosing the same files again after discarding them
+    event.target.value = '';
+    handleFiles(files);
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDraggingOver(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    // Moving between children of the drop zone also fires dragleave
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingOver(false);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingOver(false);
+    handleFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const uploadSingleFile = async (file: File) => {
+    if (recorderStatus === 'error') recorder.reset();
+
+    const pending = {};
+    pendingDecodeRef.current = pending;
+    setError(null);
+    setUploadedFile(null);
+    setIsDecoding(true);
+    try {
+      const decoded = await decodeAudioFile(file);
+      if (pendingDecodeRef.current !== pending) return;
+      setUploadedFile({ file, decoded });
+      beginReview({ audio: file, decoded, source: 'upload', capture: {} });
+    } catch (decodeError) {
+      if (pendingDecodeRef.current === pending) setError(describeAudioError(decodeError));
+    } finally {
+      if (pendingDecodeRef.current === pending) cancelDecode();
     }
   };
 
+  // Release the preview so the recorder is the only consumer of the microphone
   const startRecording = () => {
-    setIsRecording(true);
-    setRecordingTime(0);
-    // In a real app, start actual recording here
-    const timer = setInterval(() => {
-      setRecordingTime(prev => {
-        if (prev >= recordingDuration) {
-          clearInterval(timer);
-          stopRecording();
-          return recordingDuration;
-        }
-        return prev + 1;
-      });
-    }, 1000);
-    return () => clearInterval(timer);
+    cancelAnalysis();
+    cancelDecode();
+    preview.stop();
+    recorder.start();
+  };
+
+  const runCalibration = () => {
+    preview.stop();
+    calibration.run();
+  };
+
+  const dismissMicrophoneError = () => {
+    if (recorderStatus === 'error') recorder.reset();
+    if (calibration.state.status === 'error') calibration.reset();
+    preview.dismissError();
   };
 
-  const stopRecording = () => {
-    setIsRecording(false);
-    // In a real app, stop recording and get audio data
-    analyzeAudio("recorded-audio-data");
+  // Retry whichever action failed
+  const retryMicrophone = () => {
+    if (recorderStatus === 'error') startRecording();
+    else if (calibration.state.status === 'error') runCalibration();
+    else preview.start();
+  };
+
+  // Offer the upload path when the microphone cannot be used
+  const openFileUpload = () => {
+    dismissMicrophoneError();
+    fileInputRef.current?.click();
+  };
+
+  const handleDeviceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setDeviceId(e.target.value || null);
+    // Calibration results only hold for the device they were measured on
+    calibration.reset();
   };
 
   const handleCommentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -229,6 +391,10 @@ export default function AlzheimersDetectionSystem() {
     setRecordingDuration(parseInt(e.target.value));
   };
 
+  const handleSilenceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSilenceSeconds(parseInt(e.target.value));
+  };
+
   return (
     <div className="max-w-4xl mx-auto p-6 space-y-8">
       {/* Header */}
@@ -260,67 +426,198 @@ export default function AlzheimersDetectionSystem() {
           <AlertDescription>{error}</AlertDescription>
         </Alert>
       )}
+      {microphoneError && (
+        <RecordingErrorAlert
+          error={microphoneError}
+          onDismiss={dismissMicrophoneError}
+          onRetry={retryMicrophone}
+          onUseUpload={openFileUpload}
+        />
+      )}
 
       {/* Recording Section */}
       <div className="bg-white p-6 rounded-lg shadow-lg space-y-4">
         <h2 className="text-2xl font-semibold text-gray-800">{t('voiceRecording')}</h2>
         <p className="text-gray-600">{t('recordingInstructions')}</p>
         
-        <div className="flex items-center justify-center gap-4 mb-4">
+        <div className="flex flex-wrap items-center justify-center gap-4 mb-4">
           <div className="flex items-center gap-2">
-            <label htmlFor="duration" className="text-sm font-medium text-gray-700">{t('recordingDuration')}</label>
+            <label htmlFor="microphone" className="text-sm font-medium text-gray-700">{t('microphone')}</label>
+            <select
+              id="microphone"
+              value={deviceId ?? ''}
+              onChange={handleDeviceChange}
+              className="max-w-[16rem] rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+              disabled={!recorder.canStart || calibration.isRunning}
+            >
+              <option value="">{t('systemDefaultMicrophone')}</option>
+              {devices.map((device, index) => (
+                <option key={device.deviceId} value={device.deviceId}>
+                  {device.label || t('microphoneNumber', { index: index + 1 })}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <label htmlFor="duration" className="text-sm font-medium text-gray-700">
+              {autoStopOnSilence ? t('maxRecordingDuration') : t('recordingDuration')}
+            </label>
             <select 
               id="duration" 
               value={recordingDuration} 
               onChange={handleDurationChange}
               className="rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
-              disabled={isRecording}
+              disabled={!recorder.canStart}
             >
-              <option value={15}>{t('seconds15')}</option>
-              <option value={30}>{t('seconds30')}</option>
-              <option value={60}>{t('seconds60')}</option>
-              <option value={90}>{t('seconds90')}</option>
+              {recordingDurations.map((seconds) => (
+                <option key={seconds} value={seconds}>{t('durationOption', { seconds })}</option>
+              ))}
             </select>
           </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="auto-stop"
+              checked={autoStopOnSilence}
+              onCheckedChange={setAutoStopOnSilence}
+              disabled={!recorder.canStart}
+            />
+            <Label htmlFor="auto-stop" className="text-gray-700">{t('autoStopOnSilence')}</Label>
+            {autoStopOnSilence && (
+              <select
+                aria-label={t('silenceLength')}
+                value={silenceSeconds}
+                onChange={handleSilenceChange}
+                className="rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+                disabled={!recorder.canStart}
+              >
+                {silenceDurations.map((seconds) => (
+                  <option key={seconds} value={seconds}>{t('silenceOption', { seconds })}</option>
+                ))}
+              </select>
+            )}
+          </div>
         </div>
+
+        {recorder.canStart && (
+          <CalibrationPanel
+            state={calibration.state}
+            onRun={runCalibration}
+            onCancel={calibration.reset}
+          />
+        )}
         
         <div className="flex items-center justify-center gap-4">
-          {!isRecording ? (
-            <button
-              onClick={startRecording}
-              className="flex items-center gap-2 bg-red-500 text-white px-6 py-3 rounded-full hover:bg-red-600 transition"
-            >
-              <Mic className="h-5 w-5" />
-              {t('startRecording')}
-            </button>
-          ) : (
-            <div className="flex flex-col items-center">
+          {recorderStatus === 'requesting-permission' ||
+          recorderStatus === 'finalizing' ||
+          recorderStatus === 'decoding' ? (
+            <div className="flex items-center gap-2 text-gray-600">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              {recorderStatus === 'requesting-permission'
+                ? t('requestingMicrophone')
+                : recorderStatus === 'finalizing'
+                  ? t('finalizingRecording')
+                  : t(stageLabels.decoding)}
+            </div>
+          ) : !isRecording ? (
+            <div className="flex flex-col items-center gap-3">
               <div className="flex items-center gap-2">
-                <div className="animate-pulse h-3 w-3 bg-red-500 rounded-full"></div>
-                <span className="text-red-500 font-medium">{t('recordingInProgress')}</span>
+                <button
+                  onClick={startRecording}
+                  disabled={!recorder.canStart || calibration.isRunning || calibrationBlocked}
+                  className="flex items-center gap-2 bg-red-500 text-white px-6 py-3 rounded-full hover:bg-red-600 transition disabled:opacity-50 disabled:pointer-events-none"
+                >
+                  <Mic className="h-5 w-5" />
+                  {t('startRecording')}
+                </button>
+                <Button
+                  variant="outline"
+                  onClick={preview.active ? preview.stop : preview.start}
+                  disabled={!recorder.canStart || calibration.isRunning}
+                >
+                  {preview.active ? <MicOff className="me-2 h-4 w-4" /> : <Mic className="me-2 h-4 w-4" />}
+                  {preview.active ? t('stopMicrophoneTest') : t('testMicrophone')}
+                </Button>
               </div>
+              {preview.stream && <AudioLevelMeter stream={preview.stream} />}
+            </div>
+          ) : (
+            <div className="flex flex-col items-center">
+              {recorderStatus === 'paused' ? (
+                <div className="flex items-center gap-2">
+                  <Pause className="h-4 w-4 text-amber-600" />
+                  <span className="text-amber-600 font-medium">{t('recordingPaused')}</span>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <div className="animate-pulse h-3 w-3 bg-red-500 rounded-full"></div>
+                  <span className="text-red-500 font-medium">{t('recordingInProgress')}</span>
+                </div>
+              )}
+              {autoStopOnSilence && (
+                <span className="text-sm text-gray-500">
+                  {recorder.speech.voiced < MIN_SPEECH_SECONDS
+                    ? t('speechCaptured', {
+                        voiced: Math.floor(recorder.speech.voiced),
+                        required: MIN_SPEECH_SECONDS,
+                      })
+                    : t('waitingForSilence', { seconds: silenceSeconds })}
+                </span>
+              )}
+              {'segments' in recorder.state && recorder.state.segments > 1 && (
+                <span className="text-sm text-gray-500">
+                  {t('recordingSegment', { segment: recorder.state.segments })}
+                </span>
+              )}
+              {recorder.stream && <AudioLevelMeter stream={recorder.stream} className="mt-3" />}
               <div className="w-64 bg-gray-200 rounded-full h-2.5 my-3">
                 <div 
-                  className="bg-red-500 h-2.5 rounded-full" 
-                  style={{width: `${(recordingTime / recordingDuration) * 100}%`}}
+                  className={`${recorderStatus === 'paused' ? 'bg-amber-500' : 'bg-red-500'} h-2.5 rounded-full`}
+                  style={{width: `${Math.min(100, (recorder.elapsed / recordingDuration) * 100)}%`}}
                 ></div>
               </div>
-              <button
-                onClick={stopRecording}
-                className="flex items-center gap-2 bg-gray-600 text-white px-6 py-3 rounded-full hover:bg-gray-700 transition"
-              >
-                <Square className="h-5 w-5" />
-                {t('stopRecording')} ({recordingTime}s / {recordingDuration}s)
-              </button>
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                {recorderStatus === 'paused' ? (
+                  <button
+                    onClick={recorder.resume}
+                    className="flex items-center gap-2 bg-red-500 text-white px-6 py-3 rounded-full hover:bg-red-600 transition"
+                  >
+                    <Play className="h-5 w-5" />
+                    {t('resumeRecording')}
+                  </button>
+                ) : (
+                  <button
+                    onClick={recorder.pause}
+                    className="flex items-center gap-2 bg-amber-500 text-white px-6 py-3 rounded-full hover:bg-amber-600 transition"
+                  >
+                    <Pause className="h-5 w-5" />
+                    {t('pauseRecording')}
+                  </button>
+                )}
+                <button
+                  onClick={recorder.stop}
+                  className="flex items-center gap-2 bg-gray-600 text-white px-6 py-3 rounded-full hover:bg-gray-700 transition"
+                >
+                  <Square className="h-5 w-5" />
+                  {t('stopRecording', { elapsed: Math.floor(recorder.elapsed), total: recordingDuration })}
+                </button>
+              </div>
             </div>
           )}
         </div>
       </div>
 
       {/* File Upload Section */}
-      <div className="bg-white p-6 rounded-lg shadow-lg space-y-4">
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`p-6 rounded-lg shadow-lg space-y-4 border-2 border-dashed transition ${
+          isDraggingOver ? 'border-blue-500 bg-blue-50' : 'border-transparent bg-white'
+        }`}
+      >
         <h2 className="text-2xl font-semibold text-gray-800">{t('audioUpload')}</h2>
         <p className="text-gray-600">{t('uploadInstructions')}</p>
+        <p className="text-sm text-gray-500">{t('dropZoneHint')}</p>
         <div className="flex items-center justify-center">
           <label className="flex flex-col items-center gap-2 cursor-pointer">
             <div className="flex items-center gap-2 bg-blue-500 text-white px-6 py-3 rounded-full hover:bg-blue-600 transition">
@@ -328,29 +625,92 @@ export default function AlzheimersDetectionSystem() {
               {t('uploadButton')}
             </div>
             <input
+              ref={fileInputRef}
               type="file"
-              accept="audio/*"
+              accept="audio/*,.wav,.mp3,.m4a,.aac,.ogg,.opus,.webm,.flac"
+              multiple
               onChange={handleFileUpload}
               className="hidden"
             />
           </label>
         </div>
-        {uploadedFile && (
-          <p className="text-sm text-gray-600 text-center">
-            {t('fileUploaded')} {uploadedFile.name}
+        {isDecoding && (
+          <p className="flex items-center justify-center gap-2 text-sm text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t('decodingAudio')}
           </p>
         )}
+        {uploadedFile && (
+          <div className="text-sm text-gray-600 text-center">
+            <p>{t('fileUploaded', { name: uploadedFile.file.name })}</p>
+            <p>
+              {t('fileDetails', {
+                format: uploadedFile.decoded.source.format.toUpperCase(),
+                duration: uploadedFile.decoded.duration,
+                sampleRate: uploadedFile.decoded.source.sampleRate
+                  ? t('sampleRateValue', { rate: uploadedFile.decoded.source.sampleRate / 1000 })
+                  : t('unknownValue'),
+                channels: uploadedFile.decoded.source.channels,
+              })}
+            </p>
+          </div>
+        )}
+        {uploadQueue.items.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-lg font-semibold text-gray-800">{t('uploadQueue')}</h3>
+            <UploadQueue
+              items={uploadQueue.items}
+              describeError={describeAudioError}
+              onCancel={uploadQueue.cancel}
+              onRetry={uploadQueue.retry}
+              onRemove={uploadQueue.remove}
+              onView={setAnalysis}
+            />
+          </div>
+        )}
       </div>
 
+      {/* Review */}
+      {review && (
+        <AudioReview
+          audio={review.audio}
+          decoded={review.decoded}
+          source={review.source}
+          noiseProfile={review.capture.noiseProfile}
+          onAnalyze={analyzeReviewed}
+          onDiscard={discardReview}
+        />
+      )}
+
       {/* Analysis Results */}
-      {isProcessing ? (
-        <div className="text-center p-6">
+      {analysisProgress ? (
+        <div className="text-center p-6 space-y-4">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto"></div>
-          <p className="mt-4 text-gray-600">{t('analyzing')}</p>
+          <p className="text-gray-600">{t('analyzing')}</p>
+          <div className="max-w-md mx-auto space-y-2">
+            <Progress value={analysisProgress.progress * 100} aria-label={t('analyzing')} />
+            <p className="text-sm text-gray-500">{t(stageLabels[analysisProgress.stage])}</p>
+          </div>
         </div>
       ) : analysis && (
         <div className="bg-white p-6 rounded-lg shadow-lg space-y-6">
-          <h2 className="text-2xl font-semibold text-gray-800">{t('analysisResults')}</h2>
+          <div className="flex flex-wrap items-center gap-3">
+            <h2 className="text-2xl font-semibold text-gray-800">{t('analysisResults')}</h2>
+            {analysis.profile === 'telephone' && (
+              <Badge variant="secondary">
+                <Phone className="me-1 h-3 w-3" />
+                {t('telephoneMode')}
+              </Badge>
+            )}
+          </div>
+          {analysis.profile === 'telephone' && TELEPHONE_PROFILE.band && (
+            <p className="text-sm text-gray-600">
+              {t('telephoneModeDescription', {
+                low: TELEPHONE_PROFILE.band.lowHz,
+                high: TELEPHONE_PROFILE.band.highHz,
+              })}
+            </p>
+          )}
           
           {/* Alzheimer's Detection Status */}
           <div className={`text-center p-6 rounded-lg ${
@@ -367,7 +727,7 @@ export default function AlzheimersDetectionSystem() {
           {/* Overall Score */}
           <div className="text-center p-4 bg-gray-50 rounded-lg">
             <div className="flex justify-center items-center gap-2">
-              <h3 className="text-xl font-bold">{t('overallScore')} {analysis.score}/100</h3>
+              <h3 className="text-xl font-bold">{t('overallScore', { score: analysis.score })}</h3>
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger>
@@ -397,8 +757,30 @@ export default function AlzheimersDetectionSystem() {
             analysis.risk === 'Moderate' ? 'bg-yellow-100 text-yellow-800' :
             'bg-green-100 text-green-800'
           }`}>
-            <h3 className="text-xl font-bold">{t('riskLevel')} {analysis.risk}</h3>
-            <p>{t('analysisConfidence')} {analysis.confidence}%</p>
+            <h3 className="text-xl font-bold">{t('riskLevel', { risk: analysis.risk })}</h3>
+            <p>{t('analysisConfidence', { confidence: analysis.confidence / 100 })}</p>
+            {analysis.calibration && (
+              <p className="text-sm">
+                {t('environmentCheck', {
+                  metrics: t('calibrationMetrics', calibrationMessageParams(analysis.calibration)),
+                })}
+              </p>
+            )}
+            {analysis.preprocessing.noiseProfile && (
+              <p className="text-sm">
+                {analysis.preprocessing.noiseProfile === 'calibration'
+                  ? t('noiseReducedCalibration')
+                  : t('noiseReducedSilence')}
+              </p>
+            )}
+            {analysis.preprocessing.inputLufs !== null && analysis.preprocessing.outputLufs !== null && (
+              <p className="text-sm">
+                {t('loudnessNormalized', {
+                  from: analysis.preprocessing.inputLufs,
+                  to: analysis.preprocessing.outputLufs,
+                })}
+              </p>
+            )}
           </div>
 
           {/* Voice Biomarkers */}
@@ -421,7 +803,7 @@ export default function AlzheimersDetectionSystem() {
                 <div key={index} className="p-4 bg-gray-50 rounded-lg">
                   <div className="flex justify-between items-center">
                     <h4 className="font-semibold">{t(biomarker.name)}</h4>
-                    <span className="text-sm text-gray-500">{t('weight')} {biomarker.weight * 100}%</span>
+                    <span className="text-sm text-gray-500">{t('weight', { weight: biomarker.weight })}</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2.5 my-2">
                     <div 
@@ -434,107 +816,145 @@ export default function AlzheimersDetectionSystem() {
                     ></div>
                   </div>
                   <div className="flex justify-between text-xs text-gray-600">
-                    <span>{biomarker.value}%</span>
+                    <span>{t('percentage', { value: biomarker.value / 100 })}</span>
                     <span>{t(biomarker.description)}</span>
                   </div>
                 </div>
               ))}
             </div>
+            {analysis.voice && (
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <h4 className="font-semibold mb-2">{t('voiceMeasurements')}</h4>
+                <ul className="grid grid-cols-1 md:grid-cols-2 gap-1 text-sm text-gray-600">
+                  <li>
+                    {t('measurePitch', {
+                      mean: analysis.voice.f0MeanHz,
+                      std: analysis.voice.f0StdHz,
+                    })}
+                  </li>
+                  <li>{t('measureHnr', { value: analysis.voice.hnrDb })}</li>
+                  {analysis.voice.jitter !== null && (
+                    <li>{t('measureJitter', { value: analysis.voice.jitter })}</li>
+                  )}
+                  {analysis.voice.shimmer !== null && (
+                    <li>{t('measureShimmer', { value: analysis.voice.shimmer })}</li>
+                  )}
+                </ul>
+              </div>
+            )}
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <h4 className="font-semibold mb-2">{t('rateMeasurements')}</h4>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-1 text-sm text-gray-600">
+                <li>{t('measureSpeechRate', { rate: roundTenths(analysis.rate.speechRate) })}</li>
+                <li>
+                  {t('measureArticulationRate', { rate: roundTenths(analysis.rate.articulationRate) })}
+                </li>
+              </ul>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <h4 className="font-semibold mb-2">{t('pauseMeasurements')}</h4>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-1 text-sm text-gray-600">
+                <li>
+                  {t('measurePauseCount', {
+                    count: analysis.pauses.count,
+                    rate: analysis.pauses.perMinute,
+                  })}
+                </li>
+                <li>{t('measurePhonation', { ratio: analysis.pauses.phonationRatio })}</li>
+                {analysis.pauses.count > 0 && (
+                  <li>
+                    {t('measurePauseLength', {
+                      mean: roundTenths(analysis.pauses.meanSeconds),
+                      median: roundTenths(analysis.pauses.medianSeconds),
+                    })}
+                  </li>
+                )}
+                <li>
+                  {t('measureLongPauses', {
+                    count: analysis.pauses.longCount,
+                    threshold: LONG_PAUSE_SECONDS,
+                  })}
+                </li>
+                {analysis.pauses.excludedCount > 0 && (
+                  <li>{t('measureOperatorPauses', { count: analysis.pauses.excludedCount })}</li>
+                )}
+              </ul>
+              {analysis.pauses.count > 0 && (
+                <div className="mt-3 space-y-1" aria-label={t('pauseDistribution')}>
+                  {analysis.pauses.histogram.map((count, bin) => (
+                    <div key={bin} className="flex items-center gap-2 text-xs text-gray-600">
+                      <span className="w-24 shrink-0">
+                        {bin < PAUSE_BIN_EDGES.length - 1
+                          ? t('pauseBin', { from: PAUSE_BIN_EDGES[bin], to: PAUSE_BIN_EDGES[bin + 1] })
+                          : t('pauseBinOpen', { from: PAUSE_BIN_EDGES[bin] })}
+                      </span>
+                      <div className="h-2 flex-1 rounded-full bg-gray-200">
+                        <div
+                          className="h-2 rounded-full bg-blue-500"
+                          style={{ width: `${(count / analysis.pauses.count) * 100}%` }}
+                        ></div>
+                      </div>
+                      <span className="w-6 text-end">{count}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <h4 className="font-semibold mb-2">{t('recordingQuality')}</h4>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-1 text-sm text-gray-600">
+                <li>{t('qualityScore', { score: analysis.quality.score })}</li>
+                <li>{t('qualitySnr', { value: analysis.quality.snrDb })}</li>
+                <li>{t('qualityClipping', { value: analysis.quality.clippingRatio })}</li>
+                {analysis.quality.reverbSeconds !== null && (
+                  <li>{t('qualityReverb', { value: roundTenths(analysis.quality.reverbSeconds) })}</li>
+                )}
+                <li>{t('qualityBandwidth', { value: analysis.quality.bandwidthHz })}</li>
+                <li>{t('qualitySpeech', { value: analysis.quality.speechSeconds })}</li>
+                <li>{t('qualityDropouts', { count: analysis.quality.dropouts })}</li>
+              </ul>
+              {analysis.quality.issues.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm text-amber-700">
+                  {analysis.quality.issues.map((issue) => (
+                    <li key={issue} className="flex items-start gap-2">
+                      <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                      {t(qualityIssueMessages[issue])}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
 
           {/* Detailed Indicators */}
           <div className="space-y-4">
             <h3 className="text-xl font-semibold">{t('speechPatternAnalysis')}</h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <h4 className="font-semibold">{t('speechClarity')}</h4>
-                <div className="w-full bg-gray-200 rounded-full h-2.5 my-2">
-                  <div 
-                    className={`h-2.5 rounded-full ${
-                      analysis.indicators.speechClarity >= 85 ? 'bg-green-500' : 
-                      analysis.indicators.speechClarity >= 70 ? 'bg-yellow-500' : 
-                      'bg-red-500'
-                    }`}
-                    style={{width: `${analysis.indicators.speechClarity}%`}}
-                  ></div>
-                </div>
-                <p className="text-sm text-gray-600">{analysis.indicators.speechClarity}%</p>
-              </div>
-              
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <h4 className="font-semibold">{t('wordRecall')}</h4>
-                <div className="w-full bg-gray-200 rounded-full h-2.5 my-2">
-                  <div 
-                    className={`h-2.5 rounded-full ${
-                      analysis.indicators.wordRecall >= 85 ? 'bg-green-500' : 
-                      analysis.indicators.wordRecall >= 70 ? 'bg-yellow-500' : 
-                      'bg-red-500'
-                    }`}
-                    style={{width: `${analysis.indicators.wordRecall}%`}}
-                  ></div>
-                </div>
-                <p className="text-sm text-gray-600">{analysis.indicators.wordRecall}%</p>
-              </div>
-              
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <h4 className="font-semibold">{t('sentenceStructure')}</h4>
-                <div className="w-full bg-gray-200 rounded-full h-2.5 my-2">
-                  <div 
-                    className={`h-2.5 rounded-full ${
-                      analysis.indicators.sentenceStructure >= 85 ? 'bg-green-500' : 
-                      analysis.indicators.sentenceStructure >= 70 ? 'bg-yellow-500' : 
-                      'bg-red-500'
-                    }`}
-                    style={{width: `${analysis.indicators.sentenceStructure}%`}}
-                  ></div>
-                </div>
-                <p className="text-sm text-gray-600">{analysis.indicators.sentenceStructure}%</p>
-              </div>
-              
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <h4 className="font-semibold">{t('pausePatterns')}</h4>
-                <div className="w-full bg-gray-200 rounded-full h-2.5 my-2">
-                  <div 
-                    className={`h-2.5 rounded-full ${
-                      analysis.indicators.pausePatterns >= 85 ? 'bg-green-500' : 
-                      analysis.indicators.pausePatterns >= 70 ? 'bg-yellow-500' : 
-                      'bg-red-500'
-                    }`}
-                    style={{width: `${analysis.indicators.pausePatterns}%`}}
-                  ></div>
-                </div>
-                <p className="text-sm text-gray-600">{analysis.indicators.pausePatterns}%</p>
-              </div>
-              
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <h4 className="font-semibold">{t('prosody')}</h4>
-                <div className="w-full bg-gray-200 rounded-full h-2.5 my-2">
-                  <div 
-                    className={`h-2.5 rounded-full ${
-                      analysis.indicators.prosody >= 85 ? 'bg-green-500' : 
-                      analysis.indicators.prosody >= 70 ? 'bg-yellow-500' : 
-                      'bg-red-500'
-                    }`}
-                    style={{width: `${analysis.indicators.prosody}%`}}
-                  ></div>
-                </div>
-                <p className="text-sm text-gray-600">{analysis.indicators.prosody}%</p>
-              </div>
-              
-              <div className="p-4 bg-gray-50 rounded-lg">
-                <h4 className="font-semibold">{t('semanticCoherence')}</h4>
-                <div className="w-full bg-gray-200 rounded-full h-2.5 my-2">
-                  <div 
-                    className={`h-2.5 rounded-full ${
-                      analysis.indicators.semanticCoherence >= 85 ? 'bg-green-500' : 
-                      analysis.indicators.semanticCoherence >= 70 ? 'bg-yellow-500' : 
-                      'bg-red-500'
-                    }`}
-                    style={{width: `${analysis.indicators.semanticCoherence}%`}}
-                  ></div>
-                </div>
-                <p className="text-sm text-gray-600">{analysis.indicators.semanticCoherence}%</p>
-              </div>
+              {indicatorCards.map((key) => {
+                const value = analysis.indicators[key];
+                return (
+                  <div key={key} className="p-4 bg-gray-50 rounded-lg">
+                    <h4 className="font-semibold">{t(key)}</h4>
+                    {value === null ? (
+                      <p className="text-sm text-gray-500 mt-2">{t('notMeasured')}</p>
+                    ) : (
+                      <>
+                        <div className="w-full bg-gray-200 rounded-full h-2.5 my-2">
+                          <div
+                            className={`h-2.5 rounded-full ${
+                              value >= 85 ? 'bg-green-500' :
+                              value >= 70 ? 'bg-yellow-500' :
+                              'bg-red-500'
+                            }`}
+                            style={{width: `${value}%`}}
+                          ></div>
+                        </div>
+                        <p className="text-sm text-gray-600">{t('percentage', { value: value / 100 })}</p>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
             </div>
           </div>
 
@@ -0,0 +1,96 @@
+import { useEffect, useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { useI18nStore } from '@/lib/i18n';
+import { CLIP_THRESHOLD, meterPosition, peak, rms, toDecibels } from '@/lib/audio/level';
+
+// How long the clip indicator stays lit after a clipped block
+const CLIP_HOLD_MS = 1000;
+
+interface AudioLevelMeterProps {
+  stream: MediaStream;
+  className?: string;
+}
+
+// Live input level bar and oscilloscope-style waveform for a microphone stream.
+// Drawing happens outside React state so the meter can update every animation frame
+export default function AudioLevelMeter({ stream, className }: AudioLevelMeterProps) {
+  const { t } = useI18nStore();
+  const meterRef = useRef<HTMLDivElement>(null);
+  const barRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+
+    const samples = new Float32Array(analyser.fftSize);
+    let lastClip = -Infinity;
+    let frame = 0;
+
+    const draw = (now: number) => {
+      analyser.getFloatTimeDomainData(samples);
+      const level = meterPosition(toDecibels(rms(samples)));
+      if (peak(samples) >= CLIP_THRESHOLD) lastClip = now;
+      const clipping = now - lastClip < CLIP_HOLD_MS;
+
+      if (barRef.current) {
+        barRef.current.style.width = `${level * 100}%`;
+        barRef.current.classList.toggle('bg-red-500', clipping);
+        barRef.current.classList.toggle('bg-green-500', !clipping);
+      }
+      meterRef.current?.setAttribute('aria-valuenow', String(Math.round(level * 100)));
+
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        const { width, height } = canvas;
+        ctx.clearRect(0, 0, width, height);
+        ctx.strokeStyle = clipping ? '#ef4444' : '#3b82f6';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        for (let x = 0; x < width; x++) {
+          const sample = samples[Math.floor((x / width) * samples.length)];
+          const y = ((1 - sample) / 2) * height;
+          if (x === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close();
+    };
+  }, [stream]);
+
+  return (
+    <div className={cn('w-64 space-y-2', className)}>
+      <div
+        ref={meterRef}
+        role="meter"
+        aria-label={t('inputLevel')}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={0}
+        className="h-2.5 w-full overflow-hidden rounded-full bg-gray-200"
+      >
+        <div ref={barRef} className="h-full w-0 rounded-full bg-green-500 transition-[width] duration-75" />
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={256}
+        height={48}
+        aria-hidden="true"
+        className="h-12 w-full rounded-md bg-gray-50"
+      />
+    </div>
+  );
+}
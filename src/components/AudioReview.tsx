@@ -0,0 +1,215 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Brain, Loader2, Play, RotateCcw, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import PreprocessingSettings from '@/components/PreprocessingSettings';
+import { previewPreprocessing } from '@/lib/analysis-client';
+import { useI18nStore } from '@/lib/i18n';
+import { usePreprocessingSettingsStore } from '@/lib/preprocessing-settings';
+import type { DecodedAudio } from '@/lib/audio/decode';
+import type { NoiseProfile } from '@/lib/audio/preprocess';
+import { voicedDuration } from '@/lib/audio/vad';
+import { encodeWav } from '@/lib/audio/wav';
+import { computeWaveform } from '@/lib/audio/waveform';
+
+const WAVEFORM_WIDTH = 600;
+const WAVEFORM_HEIGHT = 96;
+// Trim handles move in steps of this many seconds
+const TRIM_STEP = 0.05;
+
+const roundTenths = (seconds: number) => Math.round(seconds * 10) / 10;
+
+export interface ReviewedAudio {
+  // The kept span, still carrying the properties of the source file
+  decoded: DecodedAudio;
+  // Kept span of the original, in seconds
+  start: number;
+  end: number;
+  // Voiced speech within the kept span
+  speechSeconds: number;
+}
+
+interface AudioReviewProps {
+  // Played back as supplied
+  audio: Blob;
+  // Decoded once up front; drawn, trimmed and analysed without decoding again
+  decoded: DecodedAudio;
+  source: 'recording' | 'upload';
+  // Room noise from calibration, so the cleaned-up preview matches the analysis
+  noiseProfile?: NoiseProfile | null;
+  onAnalyze: (reviewed: ReviewedAudio) => void;
+  onDiscard: () => void;
+}
+
+// Playback, waveform and trim handles shown between capture and analysis
+export default function AudioReview({
+  audio,
+  decoded,
+  source,
+  noiseProfile = null,
+  onAnalyze,
+  onDiscard,
+}: AudioReviewProps) {
+  const { t } = useI18nStore();
+  const preprocessing = usePreprocessingSettingsStore((state) => state.options);
+  const [listenTo, setListenTo] = useState<'original' | 'processed'>('original');
+  const [processedUrl, setProcessedUrl] = useState<string | null>(null);
+  const [range, setRange] = useState<[number, number]>([0, decoded.duration]);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const url = useMemo(() => URL.createObjectURL(audio), [audio]);
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  // The cleaned-up version is only rendered once asked for, and again whenever
+  // the settings change while it is selected. It is rendered in a worker, which
+  // is dropped if the settings change again before it finishes
+  useEffect(() => {
+    if (listenTo !== 'processed') return;
+    const controller = new AbortController();
+    let rendered: string | null = null;
+    previewPreprocessing(decoded, preprocessing, noiseProfile, controller.signal)
+      .then((samples) => {
+        if (controller.signal.aborted) return;
+        rendered = URL.createObjectURL(encodeWav([samples], decoded.sampleRate));
+        setProcessedUrl(rendered);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setListenTo('original');
+      });
+    return () => {
+      controller.abort();
+      if (rendered) URL.revokeObjectURL(rendered);
+      setProcessedUrl(null);
+    };
+  }, [listenTo, decoded, preprocessing, noiseProfile]);
+  const isProcessing = listenTo === 'processed' && !processedUrl;
+
+  useEffect(() => setRange([0, decoded.duration]), [decoded]);
+
+  const waveform = useMemo(() => computeWaveform(decoded.samples, WAVEFORM_WIDTH), [decoded]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const middle = WAVEFORM_HEIGHT / 2;
+    const keptFrom = (range[0] / decoded.duration) * WAVEFORM_WIDTH;
+    const keptTo = (range[1] / decoded.duration) * WAVEFORM_WIDTH;
+
+    ctx.clearRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+    waveform.forEach(({ min, max }, x) => {
+      ctx.fillStyle = x >= keptFrom && x <= keptTo ? '#3b82f6' : '#d1d5db';
+      ctx.fillRect(x, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+    });
+  }, [waveform, decoded, range]);
+
+  const playSelection = () => {
+    const element = audioRef.current;
+    if (!element) return;
+    const [start, end] = range;
+    element.currentTime = start;
+    // timeupdate fires a few times a second, which is close enough for review
+    element.ontimeupdate = () => {
+      if (element.currentTime >= end) {
+        element.pause();
+        element.ontimeupdate = null;
+      }
+    };
+    element.play();
+  };
+
+  const analyze = () => {
+    const [start, end] = range;
+    const samples = decoded.samples.subarray(
+      Math.floor(start * decoded.sampleRate),
+      Math.ceil(end * decoded.sampleRate)
+    );
+    onAnalyze({
+      decoded: { ...decoded, samples, duration: samples.length / decoded.sampleRate },
+      start,
+      end,
+      speechSeconds: voicedDuration(samples, decoded.sampleRate),
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg space-y-4">
+      <h2 className="text-2xl font-semibold text-gray-800">
+        {source === 'recording' ? t('reviewRecording') : t('reviewUpload')}
+      </h2>
+      <p className="text-gray-600">{t('reviewInstructions')}</p>
+
+      <audio ref={audioRef} src={processedUrl ?? url} controls className="w-full" />
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <span>{t('listenTo')}</span>
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={listenTo}
+          // Radix reports an empty value when the active item is clicked again
+          onValueChange={(value) => value && setListenTo(value as 'original' | 'processed')}
+        >
+          <ToggleGroupItem value="original">{t('listenOriginal')}</ToggleGroupItem>
+          <ToggleGroupItem value="processed">{t('listenProcessed')}</ToggleGroupItem>
+        </ToggleGroup>
+        {isProcessing && (
+          <span className="flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t('preparingProcessed')}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <canvas
+          ref={canvasRef}
+          width={WAVEFORM_WIDTH}
+          height={WAVEFORM_HEIGHT}
+          aria-hidden="true"
+          className="h-24 w-full rounded-md bg-gray-50 rtl:-scale-x-100"
+        />
+        <Slider
+          min={0}
+          max={decoded.duration}
+          step={TRIM_STEP}
+          minStepsBetweenThumbs={1}
+          value={range}
+          onValueChange={(value) => setRange([value[0], value[1]])}
+          thumbLabels={[t('trimStart'), t('trimEnd')]}
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+          <span>
+            {t('trimRange', {
+              start: roundTenths(range[0]),
+              end: roundTenths(range[1]),
+              length: roundTenths(range[1] - range[0]),
+            })}
+          </span>
+          <Button variant="outline" size="sm" onClick={playSelection}>
+            <Play className="me-2 h-4 w-4" />
+            {t('playSelection')}
+          </Button>
+        </div>
+      </div>
+
+      <PreprocessingSettings />
+
+      <div className="flex flex-wrap justify-center gap-3">
+        <Button onClick={analyze}>
+          <Brain className="me-2 h-4 w-4" />
+          {t('analyzeRecording')}
+        </Button>
+        <Button variant="outline" onClick={onDiscard}>
+          {source === 'recording' ? (
+            <RotateCcw className="me-2 h-4 w-4" />
+          ) : (
+            <Upload className="me-2 h-4 w-4" />
+          )}
+          {source === 'recording' ? t('reRecord') : t('chooseAnotherFile')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { AlertTriangle, CheckCircle2, Loader2, SlidersHorizontal, XCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import AudioLevelMeter from '@/components/AudioLevelMeter';
+import { useI18nStore, TranslationKey } from '@/lib/i18n';
+import {
+  calibrationMessageParams,
+  NOISE_PHASE_SECONDS,
+  type CalibrationIssue,
+} from '@/lib/audio/calibration';
+import type { CalibrationState } from '@/hooks/use-calibration';
+
+const issueMessages: Record<CalibrationIssue, TranslationKey> = {
+  'no-speech': 'calibrationNoSpeech',
+  noisy: 'calibrationNoisy',
+  clipping: 'calibrationClipping',
+  'too-quiet': 'calibrationTooQuiet',
+};
+
+interface CalibrationPanelProps {
+  state: CalibrationState;
+  onRun: () => void;
+  onCancel: () => void;
+}
+
+export default function CalibrationPanel({ state, onRun, onCancel }: CalibrationPanelProps) {
+  const { t } = useI18nStore();
+  const isRunning =
+    state.status === 'opening' ||
+    state.status === 'measuring-noise' ||
+    state.status === 'measuring-speech';
+  const result = state.status === 'done' ? state.result : null;
+
+  return (
+    <div className="rounded-md border border-gray-200 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-medium text-gray-800">{t('calibrationTitle')}</h3>
+          <p className="text-sm text-gray-600">{t('calibrationDescription')}</p>
+        </div>
+        {isRunning ? (
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            {t('cancel')}
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm" onClick={onRun}>
+            <SlidersHorizontal className="me-2 h-4 w-4" />
+            {result ? t('rerunCalibration') : t('runCalibration')}
+          </Button>
+        )}
+      </div>
+
+      {isRunning && (
+        <div className="flex flex-col items-center gap-2 text-center">
+          <div className="flex items-center gap-2 text-gray-700">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {state.status === 'measuring-speech'
+              ? t('calibrationSayPhrase')
+              : state.status === 'measuring-noise'
+                ? t('calibrationStaySilent', { seconds: NOISE_PHASE_SECONDS })
+                : t('requestingMicrophone')}
+          </div>
+          {state.status === 'measuring-speech' && (
+            <p className="text-lg font-medium text-blue-800">“{t('calibrationPhrase')}”</p>
+          )}
+          {'stream' in state && <AudioLevelMeter stream={state.stream} />}
+        </div>
+      )}
+
+      {result && result.verdict === 'ok' && (
+        <p className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          {t('calibrationPassed')}
+        </p>
+      )}
+
+      {result && result.verdict !== 'ok' && (
+        <Alert
+          variant={result.verdict === 'block' ? 'destructive' : 'default'}
+          className={
+            result.verdict === 'warn'
+              ? 'border-amber-500 text-amber-800 [&>svg]:text-amber-600'
+              : undefined
+          }
+        >
+          {result.verdict === 'block' ? (
+            <XCircle className="h-4 w-4" />
+          ) : (
+            <AlertTriangle className="h-4 w-4" />
+          )}
+          <AlertTitle>
+            {result.verdict === 'block' ? t('calibrationBlockedTitle') : t('calibrationWarningTitle')}
+          </AlertTitle>
+          <AlertDescription className="space-y-2">
+            <ul className="list-disc ps-5 space-y-1">
+              {result.issues.map((issue) => (
+                <li key={issue}>{t(issueMessages[issue])}</li>
+              ))}
+            </ul>
+            {result.verdict === 'block' && <p className="font-medium">{t('calibrationBlockedHelp')}</p>}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {result && (
+        <p className="text-xs text-gray-500">
+          {t('calibrationMetrics', calibrationMessageParams(result.metrics))}
+        </p>
+      )}
+    </div>
+  );
+}
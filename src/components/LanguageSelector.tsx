@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Check, ChevronsUpDown, Globe } from 'lucide-react';
+import { Check, ChevronsUpDown, Globe, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import {
@@ -14,11 +14,11 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import { languages, useI18nStore } from '@/lib/i18n';
+import { availableLanguages, languages, useI18nStore } from '@/lib/i18n';
 
 export default function LanguageSelector() {
   const [open, setOpen] = useState(false);
-  const { language, setLanguage, t } = useI18nStore();
+  const { language, loadingLanguage, setLanguage, t } = useI18nStore();
 
   return (
     <Popover open={open} onOpenChange={setOpen}>
@@ -27,36 +27,45 @@ export default function LanguageSelector() {
           variant="outline"
           role="combobox"
           aria-expanded={open}
+          aria-busy={loadingLanguage !== null}
           className="w-[180px] justify-between"
         >
           <div className="flex items-center gap-2">
-            <Globe className="h-4 w-4" />
-            <span>{languages[language as keyof typeof languages]}</span>
+            {loadingLanguage ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Globe className="h-4 w-4" />
+            )}
+            <span>{languages[language]}</span>
           </div>
-          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          <ChevronsUpDown className="ms-2 h-4 w-4 shrink-0 opacity-50" />
         </Button>
       </PopoverTrigger>
       <PopoverContent className="w-[180px] p-0">
         <Command>
           <CommandInput placeholder={t('language')} />
-          <CommandEmpty>No language found.</CommandEmpty>
+          <CommandEmpty>{t('noLanguageFound')}</CommandEmpty>
           <CommandGroup>
-            {Object.entries(languages).map(([code, name]) => (
+            {availableLanguages.map((code) => (
               <CommandItem
                 key={code}
                 value={code}
                 onSelect={() => {
-                  setLanguage(code as keyof typeof languages);
+                  setLanguage(code);
                   setOpen(false);
                 }}
               >
-                <Check
-                  className={cn(
-                    "mr-2 h-4 w-4",
-                    language === code ? "opacity-100" : "opacity-0"
-                  )}
-                />
-                {name}
+                {loadingLanguage === code ? (
+                  <Loader2 className="me-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Check
+                    className={cn(
+                      "me-2 h-4 w-4",
+                      language === code ? "opacity-100" : "opacity-0"
+                    )}
+                  />
+                )}
+                {languages[code]}
               </CommandItem>
             ))}
           </CommandGroup>
@@ -0,0 +1,62 @@
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useI18nStore, TranslationKey } from '@/lib/i18n';
+import { LOUDNESS_TARGETS, usePreprocessingSettingsStore } from '@/lib/preprocessing-settings';
+import type { PreprocessingOptions } from '@/lib/audio/preprocess';
+
+type ToggleOption = 'removeDc' | 'highPass' | 'noiseReduction' | 'normalizeLoudness';
+
+// Preprocessing steps in the order they run
+const steps: { option: ToggleOption; label: TranslationKey }[] = [
+  { option: 'removeDc', label: 'removeDcOffset' },
+  { option: 'highPass', label: 'highPassFilter' },
+  { option: 'noiseReduction', label: 'noiseReduction' },
+  { option: 'normalizeLoudness', label: 'loudnessNormalization' },
+];
+
+// Switches for each cleanup step applied before analysis
+export default function PreprocessingSettings() {
+  const { t } = useI18nStore();
+  const { options, setOptions } = usePreprocessingSettingsStore();
+
+  const toggle = (option: ToggleOption) => (checked: boolean) =>
+    setOptions({ [option]: checked } as Partial<PreprocessingOptions>);
+
+  return (
+    <div className="rounded-md border border-gray-200 p-4 space-y-3">
+      <div>
+        <h3 className="font-medium text-gray-800">{t('preprocessingTitle')}</h3>
+        <p className="text-sm text-gray-600">{t('preprocessingDescription')}</p>
+      </div>
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        {steps.map(({ option, label }) => (
+          <div key={option} className="flex items-center gap-2">
+            <Switch
+              id={`preprocess-${option}`}
+              checked={options[option]}
+              onCheckedChange={toggle(option)}
+            />
+            <Label htmlFor={`preprocess-${option}`} className="text-gray-700">{t(label)}</Label>
+          </div>
+        ))}
+      </div>
+      {options.normalizeLoudness && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="loudness-target" className="text-sm font-medium text-gray-700">
+            {t('loudnessTarget')}
+          </label>
+          <select
+            id="loudness-target"
+            value={options.targetLufs}
+            onChange={(event) => setOptions({ targetLufs: parseInt(event.target.value) })}
+            className="rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 focus:ring-opacity-50"
+          >
+            {LOUDNESS_TARGETS.map((lufs) => (
+              <option key={lufs} value={lufs}>{t('loudnessOption', { lufs })}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
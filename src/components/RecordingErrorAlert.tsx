@@ -0,0 +1,60 @@
+import { AlertCircle, RotateCcw, Upload, X } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useI18nStore, TranslationKey } from '@/lib/i18n';
+import type { RecordingError, RecordingErrorCode } from '@/lib/audio/errors';
+
+const messages: Record<RecordingErrorCode, { title: TranslationKey; help: TranslationKey }> = {
+  'permission-denied': { title: 'micPermissionDeniedTitle', help: 'micPermissionDeniedHelp' },
+  'no-device': { title: 'micNotFoundTitle', help: 'micNotFoundHelp' },
+  'device-busy': { title: 'micBusyTitle', help: 'micBusyHelp' },
+  'insecure-context': { title: 'insecureContextTitle', help: 'insecureContextHelp' },
+  unsupported: { title: 'recordingUnsupportedTitle', help: 'recordingUnsupportedHelp' },
+  unknown: { title: 'recordingFailedTitle', help: 'recordingFailedHelp' },
+};
+
+// Retrying cannot help until the page or browser changes
+const unrecoverable: RecordingErrorCode[] = ['insecure-context', 'unsupported'];
+
+interface RecordingErrorAlertProps {
+  error: RecordingError;
+  onDismiss: () => void;
+  onRetry: () => void;
+  onUseUpload: () => void;
+}
+
+export default function RecordingErrorAlert({
+  error,
+  onDismiss,
+  onRetry,
+  onUseUpload,
+}: RecordingErrorAlertProps) {
+  const { t } = useI18nStore();
+  const { title, help } = messages[error.code];
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>{t(title)}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{t(help)}</p>
+        <div className="flex flex-wrap gap-2">
+          {!unrecoverable.includes(error.code) && (
+            <Button size="sm" variant="outline" onClick={onRetry}>
+              <RotateCcw className="me-2 h-4 w-4" />
+              {t('retry')}
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={onUseUpload}>
+            <Upload className="me-2 h-4 w-4" />
+            {t('useFileUpload')}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={onDismiss}>
+            <X className="me-2 h-4 w-4" />
+            {t('dismiss')}
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
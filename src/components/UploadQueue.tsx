@@ -0,0 +1,111 @@
+import { Eye, RotateCcw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useI18nStore, TranslationKey } from '@/lib/i18n';
+import type { AnalysisResult } from '@/lib/analysis';
+import type { QueuedUpload, UploadStatus } from '@/hooks/use-upload-queue';
+
+const statusLabels: Record<UploadStatus, TranslationKey> = {
+  queued: 'uploadQueued',
+  decoding: 'uploadDecoding',
+  analyzing: 'uploadAnalyzing',
+  done: 'uploadDone',
+  failed: 'uploadFailed',
+  cancelled: 'uploadCancelled',
+};
+
+interface UploadQueueProps {
+  items: QueuedUpload<AnalysisResult>[];
+  describeError: (error: unknown) => string;
+  onCancel: (id: number) => void;
+  onRetry: (id: number) => void;
+  onRemove: (id: number) => void;
+  onView: (result: AnalysisResult) => void;
+}
+
+// Per-file status of a batch upload, with controls for each file
+export default function UploadQueue({
+  items,
+  describeError,
+  onCancel,
+  onRetry,
+  onRemove,
+  onView,
+}: UploadQueueProps) {
+  const { t } = useI18nStore();
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('queueFile')}</TableHead>
+          <TableHead>{t('queueStatus')}</TableHead>
+          <TableHead className="w-32">{t('queueProgress')}</TableHead>
+          <TableHead>{t('queueResult')}</TableHead>
+          <TableHead className="text-end">{t('queueActions')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item) => {
+          const { result } = item;
+          const running = item.status === 'decoding' || item.status === 'analyzing';
+          return (
+            <TableRow key={item.id}>
+              <TableCell className="max-w-[12rem] truncate font-medium" title={item.file.name}>
+                {item.file.name}
+              </TableCell>
+              <TableCell>{t(statusLabels[item.status])}</TableCell>
+              <TableCell>
+                <Progress
+                  value={item.progress * 100}
+                  aria-label={t('queueProgressLabel', { name: item.file.name })}
+                />
+              </TableCell>
+              <TableCell className="text-gray-600">
+                {result
+                  ? t('queueResultSummary', { score: result.score, risk: result.risk })
+                  : item.status === 'failed'
+                    ? describeError(item.error)
+                    : null}
+              </TableCell>
+              <TableCell>
+                <div className="flex justify-end gap-1">
+                  {result && (
+                    <Button variant="ghost" size="icon" onClick={() => onView(result)} title={t('viewResult')}>
+                      <Eye className="h-4 w-4" />
+                      <span className="sr-only">{t('viewResult')}</span>
+                    </Button>
+                  )}
+                  {(item.status === 'queued' || running) && (
+                    <Button variant="ghost" size="icon" onClick={() => onCancel(item.id)} title={t('cancel')}>
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">{t('cancel')}</span>
+                    </Button>
+                  )}
+                  {(item.status === 'failed' || item.status === 'cancelled') && (
+                    <Button variant="ghost" size="icon" onClick={() => onRetry(item.id)} title={t('retry')}>
+                      <RotateCcw className="h-4 w-4" />
+                      <span className="sr-only">{t('retry')}</span>
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" onClick={() => onRemove(item.id)} title={t('removeFile')}>
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">{t('removeFile')}</span>
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
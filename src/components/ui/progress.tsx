@@ -10,7 +10,7 @@ const Progress = React.forwardRef<
   <ProgressPrimitive.Root
     ref={ref}
     className={cn(
-      'relative h-2 w-full overflow-hidden rounded-full bg-primary/20',
+      'relative h-2 w-full overflow-hidden rounded-full bg-primary/20 rtl:-scale-x-100',
       className
     )}
     {...props}
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Lists audio inputs and keeps the list current as devices are plugged in or
+// removed. Browsers hide device labels until microphone permission is granted,
+// so call `refresh` once a stream has been opened
+export function useAudioDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const all = await navigator.mediaDevices.enumerateDevices();
+      // Some browsers report an empty placeholder entry before permission
+      setDevices(all.filter((device) => device.kind === 'audioinput' && device.deviceId));
+    } catch (error) {
+      console.error('Failed to list audio input devices', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { devices, refresh };
+}
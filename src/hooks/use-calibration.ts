@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { openMicrophone } from '@/lib/audio/recorder';
+import { toRecordingError, type RecordingError } from '@/lib/audio/errors';
+import {
+  assessCalibration,
+  calibrationNoiseProfile,
+  computeCalibrationMetrics,
+  measureLevels,
+  NOISE_PHASE_SECONDS,
+  SPEECH_PHASE_SECONDS,
+  type CalibrationResult,
+} from '@/lib/audio/calibration';
+
+export type CalibrationState =
+  | { status: 'idle' }
+  | { status: 'opening' }
+  | { status: 'measuring-noise'; stream: MediaStream }
+  | { status: 'measuring-speech'; stream: MediaStream }
+  | { status: 'done'; result: CalibrationResult }
+  | { status: 'error'; error: RecordingError };
+
+// Runs the two-phase environment check: a few seconds of silence for the
+// noise floor, then a sample phrase for speech level, SNR and clipping
+export function useCalibration(constraints: MediaTrackConstraints) {
+  const [state, setState] = useState<CalibrationState>({ status: 'idle' });
+  const abortRef = useRef<AbortController | null>(null);
+  const constraintsRef = useRef(constraints);
+  constraintsRef.current = constraints;
+
+  const run = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ status: 'opening' });
+
+    let stream: MediaStream | null = null;
+    try {
+      stream = await openMicrophone(constraintsRef.current);
+      if (controller.signal.aborted) return;
+      setState({ status: 'measuring-noise', stream });
+      const noise = await measureLevels(stream, NOISE_PHASE_SECONDS, controller.signal);
+      if (controller.signal.aborted) return;
+      setState({ status: 'measuring-speech', stream });
+      const speech = await measureLevels(stream, SPEECH_PHASE_SECONDS, controller.signal);
+      if (controller.signal.aborted) return;
+      setState({
+        status: 'done',
+        result: assessCalibration(
+          computeCalibrationMetrics(noise, speech),
+          calibrationNoiseProfile(noise)
+        ),
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) setState({ status: 'error', error: toRecordingError(error) });
+    } finally {
+      stream?.getTracks().forEach((track) => track.stop());
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, []);
+
+  // Abandons a running check and forgets any previous result
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    setState({ status: 'idle' });
+  }, []);
+
+  // Release the microphone if the component unmounts mid-check
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  return {
+    state,
+    result: state.status === 'done' ? state.result : null,
+    isRunning:
+      state.status === 'opening' ||
+      state.status === 'measuring-noise' ||
+      state.status === 'measuring-speech',
+    run,
+    reset,
+  };
+}
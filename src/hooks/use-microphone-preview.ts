@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { openMicrophone } from '@/lib/audio/recorder';
+import { toRecordingError, type RecordingError } from '@/lib/audio/errors';
+
+// Opens the microphone without recording so the input level can be checked
+// before a session starts. Reopens on the new device when `constraints` change
+export function useMicrophonePreview(constraints: MediaTrackConstraints) {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<RecordingError | null>(null);
+  const [active, setActive] = useState(false);
+  // Serializing lets callers pass a fresh object each render
+  const constraintsKey = JSON.stringify(constraints);
+
+  useEffect(() => {
+    if (!active) return;
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    openMicrophone(JSON.parse(constraintsKey))
+      .then((microphone) => {
+        opened = microphone;
+        if (cancelled) microphone.getTracks().forEach((track) => track.stop());
+        else setStream(microphone);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        setError(toRecordingError(error));
+        setActive(false);
+      });
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach((track) => track.stop());
+      setStream(null);
+    };
+  }, [active, constraintsKey]);
+
+  const start = useCallback(() => {
+    setError(null);
+    setActive(true);
+  }, []);
+
+  const stop = useCallback(() => setActive(false), []);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { stream, error, active, start, stop, dismissError };
+}
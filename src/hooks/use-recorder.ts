@@ -0,0 +1,246 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+import { startRecorder, type Recording, type RecorderSession } from '@/lib/audio/recorder';
+import { toRecordingError, type RecordingError } from '@/lib/audio/errors';
+import { useSpeechActivity } from '@/hooks/use-speech-activity';
+
+// How often the elapsed time is refreshed while recording
+const TICK_MS = 200;
+
+export type RecorderState =
+  | { status: 'idle' }
+  | { status: 'requesting-permission' }
+  | {
+      status: 'recording';
+      activeSince: number;
+      accumulated: number;
+      elapsed: number;
+      // Number of uninterrupted stretches captured so far, counting the current one
+      segments: number;
+    }
+  | { status: 'paused'; accumulated: number; elapsed: number; segments: number }
+  | { status: 'finalizing'; elapsed: number }
+  // Handing the take to `onComplete`, which prepares it for review
+  | { status: 'decoding'; recording: Recording }
+  | { status: 'done'; recording: Recording }
+  | { status: 'error'; error: RecordingError };
+
+export type RecorderStatus = RecorderState['status'];
+
+type Action =
+  | { type: 'REQUEST_PERMISSION' }
+  | { type: 'START'; now: number }
+  | { type: 'TICK'; now: number }
+  | { type: 'PAUSE'; now: number }
+  | { type: 'RESUME'; now: number }
+  | { type: 'FINALIZE'; now: number }
+  | { type: 'DECODE'; recording: Recording }
+  | { type: 'DONE' }
+  | { type: 'FAIL'; error: RecordingError }
+  | { type: 'RESET' };
+
+// Elapsed times are in seconds; `now` comes from performance.now() so the
+// reducer stays pure. Actions that do not apply to the current state are ignored.
+const reducer = (state: RecorderState, action: Action): RecorderState => {
+  switch (action.type) {
+    case 'REQUEST_PERMISSION':
+      return canStart(state) ? { status: 'requesting-permission' } : state;
+
+    case 'START':
+      return state.status === 'requesting-permission'
+        ? { status: 'recording', activeSince: action.now, accumulated: 0, elapsed: 0, segments: 1 }
+        : state;
+
+    case 'TICK':
+      return state.status === 'recording'
+        ? { ...state, elapsed: state.accumulated + (action.now - state.activeSince) / 1000 }
+        : state;
+
+    case 'PAUSE': {
+      if (state.status !== 'recording') return state;
+      const elapsed = state.accumulated + (action.now - state.activeSince) / 1000;
+      return { status: 'paused', accumulated: elapsed, elapsed, segments: state.segments };
+    }
+
+    case 'RESUME':
+      if (state.status !== 'paused') return state;
+      return {
+        status: 'recording',
+        activeSince: action.now,
+        accumulated: state.accumulated,
+        elapsed: state.elapsed,
+        segments: state.segments + 1,
+      };
+
+    case 'FINALIZE':
+      if (state.status === 'recording') {
+        return {
+          status: 'finalizing',
+          elapsed: state.accumulated + (action.now - state.activeSince) / 1000,
+        };
+      }
+      return state.status === 'paused' ? { status: 'finalizing', elapsed: state.elapsed } : state;
+
+    case 'DECODE':
+      return state.status === 'finalizing'
+        ? { status: 'decoding', recording: action.recording }
+        : state;
+
+    case 'DONE':
+      return state.status === 'decoding' ? { status: 'done', recording: state.recording } : state;
+
+    case 'FAIL':
+      return { status: 'error', error: action.error };
+
+    case 'RESET':
+      return { status: 'idle' };
+  }
+};
+
+function canStart(state: RecorderState) {
+  return state.status === 'idle' || state.status === 'done' || state.status === 'error';
+}
+
+interface UseRecorderOptions {
+  // Recording stops automatically once this many seconds have been captured
+  maxDuration: number;
+  // Applied when the microphone is opened, e.g. to select an input device
+  constraints?: MediaTrackConstraints;
+  // Stop early after this much trailing silence, once enough speech has been captured
+  autoStop?: { silenceSeconds: number; minSpeechSeconds: number } | null;
+  // Runs once per finished recording, typically to decode it for review; the
+  // hook stays in `decoding` until it settles
+  onComplete: (recording: Recording) => Promise<void>;
+}
+
+export function useRecorder({
+  maxDuration,
+  constraints,
+  autoStop,
+  onComplete,
+}: UseRecorderOptions) {
+  const [state, dispatch] = useReducer(reducer, { status: 'idle' });
+  const sessionRef = useRef<RecorderSession | null>(null);
+  // Identifies the start awaiting microphone permission; reset and unmount
+  // clear it, so a session that opens afterwards knows it was abandoned
+  const pendingStartRef = useRef<object | null>(null);
+  // Keep the latest callback without restarting effects or recreating actions
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+  const constraintsRef = useRef(constraints);
+  constraintsRef.current = constraints;
+
+  const start = useCallback(async () => {
+    if (sessionRef.current || pendingStartRef.current) return;
+    const pending = {};
+    pendingStartRef.current = pending;
+    dispatch({ type: 'REQUEST_PERMISSION' });
+    try {
+      const session = await startRecorder(constraintsRef.current);
+      if (pendingStartRef.current !== pending) {
+        session.cancel();
+        return;
+      }
+      sessionRef.current = session;
+      dispatch({ type: 'START', now: performance.now() });
+    } catch (error) {
+      if (pendingStartRef.current === pending) {
+        dispatch({ type: 'FAIL', error: toRecordingError(error) });
+      }
+    } finally {
+      if (pendingStartRef.current === pending) pendingStartRef.current = null;
+    }
+  }, []);
+
+  const pause = useCallback(() => {
+    sessionRef.current?.pause();
+    dispatch({ type: 'PAUSE', now: performance.now() });
+  }, []);
+
+  const resume = useCallback(() => {
+    sessionRef.current?.resume();
+    dispatch({ type: 'RESUME', now: performance.now() });
+  }, []);
+
+  const stop = useCallback(async () => {
+    // Taking the session guarantees a recording is finalized and handed on once,
+    // whether the timer or the user stops it first
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+
+    dispatch({ type: 'FINALIZE', now: performance.now() });
+    let recording: Recording;
+    try {
+      recording = await session.stop();
+      dispatch({ type: 'DECODE', recording });
+    } catch (error) {
+      dispatch({ type: 'FAIL', error: toRecordingError(error) });
+      return;
+    }
+    // Decoding failures are reported by the caller, not as recording errors
+    try {
+      await onCompleteRef.current(recording);
+    } finally {
+      dispatch({ type: 'DONE' });
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    pendingStartRef.current = null;
+    sessionRef.current?.cancel();
+    sessionRef.current = null;
+    dispatch({ type: 'RESET' });
+  }, []);
+
+  const isRecording = state.status === 'recording';
+  const elapsed = 'elapsed' in state ? state.elapsed : 0;
+  const stream = sessionRef.current?.stream ?? null;
+  const speech = useSpeechActivity(stream, isRecording);
+
+  // The interval only lives while recording, so stopping or pausing clears it
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => dispatch({ type: 'TICK', now: performance.now() }), TICK_MS);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (isRecording && elapsed >= maxDuration) stop();
+  }, [isRecording, elapsed, maxDuration, stop]);
+
+  const silenceSeconds = autoStop?.silenceSeconds;
+  const minSpeechSeconds = autoStop?.minSpeechSeconds ?? 0;
+  useEffect(() => {
+    if (
+      isRecording &&
+      silenceSeconds !== undefined &&
+      speech.voiced >= minSpeechSeconds &&
+      speech.trailingSilence >= silenceSeconds
+    ) {
+      stop();
+    }
+  }, [isRecording, speech, silenceSeconds, minSpeechSeconds, stop]);
+
+  // Release the microphone if the component unmounts mid-recording, including
+  // one still being opened
+  useEffect(
+    () => () => {
+      pendingStartRef.current = null;
+      sessionRef.current?.cancel();
+    },
+    []
+  );
+
+  return {
+    state,
+    elapsed,
+    stream,
+    speech,
+    canStart: canStart(state),
+    start,
+    pause,
+    resume,
+    stop,
+    reset,
+  };
+}
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from 'react';
+import { frameLevel, speechThreshold, VAD_FRAME_SECONDS } from '@/lib/audio/vad';
+
+// How much level history the adaptive threshold considers, in seconds
+const HISTORY_SECONDS = 30;
+// Frames are analysed continuously but published to React about four times a second
+const FRAMES_PER_UPDATE = 8;
+
+export interface SpeechActivity {
+  // Voiced speech captured while active, in seconds
+  voiced: number;
+  // Silence since the last voiced frame, in seconds
+  trailingSilence: number;
+}
+
+const initialActivity: SpeechActivity = { voiced: 0, trailingSilence: 0 };
+
+// Tracks how much speech a live stream has carried while `active`, using the
+// same energy threshold as the offline check so the two agree
+export function useSpeechActivity(stream: MediaStream | null, active: boolean) {
+  const [activity, setActivity] = useState<SpeechActivity>(initialActivity);
+  // Levels seen so far, kept across pauses so the threshold does not start over
+  const historyRef = useRef<number[]>([]);
+
+  // A new stream is a new recording
+  useEffect(() => {
+    setActivity(initialActivity);
+    historyRef.current = [];
+  }, [stream]);
+
+  useEffect(() => {
+    if (!stream || !active) return;
+    const context = new AudioContext();
+    const source = context.createMediaStreamSource(stream);
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    source.connect(analyser);
+
+    const samples = new Float32Array(Math.round(VAD_FRAME_SECONDS * context.sampleRate));
+    const history = historyRef.current;
+    const maxHistory = HISTORY_SECONDS / VAD_FRAME_SECONDS;
+    // Voiced time not yet published, and silence since the last voiced frame.
+    // Silence restarts after a resume, since the operator chose to pause
+    let voiced = 0;
+    let silence = 0;
+    let frames = 0;
+    let last = performance.now();
+
+    const timer = setInterval(() => {
+      const now = performance.now();
+      const seconds = (now - last) / 1000;
+      last = now;
+
+      analyser.getFloatTimeDomainData(samples);
+      const level = frameLevel(samples);
+      history.push(level);
+      if (history.length > maxHistory) history.shift();
+
+      if (level >= speechThreshold(history)) {
+        voiced += seconds;
+        silence = 0;
+      } else {
+        silence += seconds;
+      }
+
+      if (++frames % FRAMES_PER_UPDATE === 0) {
+        const voicedSoFar = voiced;
+        const silenceSoFar = silence;
+        voiced = 0;
+        setActivity((current) => ({
+          voiced: current.voiced + voicedSoFar,
+          trailingSilence: silenceSoFar,
+        }));
+      }
+    }, VAD_FRAME_SECONDS * 1000);
+
+    return () => {
+      clearInterval(timer);
+      source.disconnect();
+      context.close();
+      // Pausing or stopping must not lose speech held back for the next update
+      if (voiced > 0) {
+        const voicedSoFar = voiced;
+        setActivity((current) => ({ ...current, voiced: current.voiced + voicedSoFar }));
+      }
+    };
+  }, [stream, active]);
+
+  return activity;
+}
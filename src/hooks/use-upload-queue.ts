@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useReducer, useRef } from 'react';
+
+export type UploadStage = 'decoding' | 'analyzing';
+
+export type UploadStatus = 'queued' | UploadStage | 'done' | 'failed' | 'cancelled';
+
+export interface QueuedUpload<T> {
+  id: number;
+  file: File;
+  status: UploadStatus;
+  // Fraction of the work done, 0 to 1
+  progress: number;
+  result: T | null;
+  error: unknown;
+}
+
+// Processes one file, reporting each stage it enters. Must stop when `signal` aborts
+export type ProcessUpload<T> = (
+  file: File,
+  signal: AbortSignal,
+  onStage: (stage: UploadStage, progress: number) => void
+) => Promise<T>;
+
+type Action<T> =
+  | { type: 'ADD'; files: File[]; firstId: number }
+  | { type: 'STAGE'; id: number; stage: UploadStage; progress: number }
+  | { type: 'SUCCEED'; id: number; result: T }
+  | { type: 'FAIL'; id: number; error: unknown }
+  | { type: 'CANCEL'; id: number }
+  | { type: 'RETRY'; id: number }
+  | { type: 'REMOVE'; id: number };
+
+const isActive = (status: UploadStatus) => status === 'decoding' || status === 'analyzing';
+
+function reducer<T>(items: QueuedUpload<T>[], action: Action<T>): QueuedUpload<T>[] {
+  const update = (id: number, change: (item: QueuedUpload<T>) => QueuedUpload<T>) =>
+    items.map((item) => (item.id === id ? change(item) : item));
+
+  switch (action.type) {
+    case 'ADD':
+      return [
+        ...items,
+        ...action.files.map((file, index) => ({
+          id: action.firstId + index,
+          file,
+          status: 'queued' as const,
+          progress: 0,
+          result: null,
+          error: null,
+        })),
+      ];
+    case 'STAGE':
+      return update(action.id, (item) => ({ ...item, status: action.stage, progress: action.progress }));
+    case 'SUCCEED':
+      return update(action.id, (item) => ({ ...item, status: 'done', progress: 1, result: action.result }));
+    case 'FAIL':
+      return update(action.id, (item) => ({ ...item, status: 'failed', error: action.error }));
+    case 'CANCEL':
+      return update(action.id, (item) =>
+        item.status === 'queued' || isActive(item.status) ? { ...item, status: 'cancelled' } : item
+      );
+    case 'RETRY':
+      return update(action.id, (item) =>
+        item.status === 'failed' || item.status === 'cancelled'
+          ? { ...item, status: 'queued', progress: 0, error: null }
+          : item
+      );
+    case 'REMOVE':
+      return items.filter((item) => item.id !== action.id);
+  }
+}
+
+// Runs uploaded files through `process` one at a time, in the order they were
+// added. Decoding and analysis are memory-heavy, so files never run in parallel
+export function useUploadQueue<T>(process: ProcessUpload<T>) {
+  const [items, dispatch] = useReducer(reducer<T>, []);
+  const processRef = useRef(process);
+  processRef.current = process;
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const nextIdRef = useRef(1);
+  const controllersRef = useRef(new Map<number, AbortController>());
+
+  const add = useCallback((files: File[]) => {
+    dispatch({ type: 'ADD', files, firstId: nextIdRef.current });
+    nextIdRef.current += files.length;
+  }, []);
+
+  const abort = (id: number) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+  };
+
+  const cancel = useCallback((id: number) => {
+    abort(id);
+    dispatch({ type: 'CANCEL', id });
+  }, []);
+
+  const retry = useCallback((id: number) => dispatch({ type: 'RETRY', id }), []);
+
+  const remove = useCallback((id: number) => {
+    abort(id);
+    dispatch({ type: 'REMOVE', id });
+  }, []);
+
+  // Start the oldest queued file whenever nothing is running
+  const nextId = items.some((item) => isActive(item.status))
+    ? null
+    : (items.find((item) => item.status === 'queued')?.id ?? null);
+
+  useEffect(() => {
+    const item = itemsRef.current.find(({ id }) => id === nextId);
+    if (!item) return;
+    const { id } = item;
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    const { signal } = controller;
+
+    dispatch({ type: 'STAGE', id, stage: 'decoding', progress: 0 });
+    processRef
+      .current(item.file, signal, (stage, progress) => {
+        if (!signal.aborted) dispatch({ type: 'STAGE', id, stage, progress });
+      })
+      .then((result) => {
+        if (!signal.aborted) dispatch({ type: 'SUCCEED', id, result });
+      })
+      .catch((error) => {
+        if (!signal.aborted) dispatch({ type: 'FAIL', id, error });
+      })
+      .finally(() => {
+        if (controllersRef.current.get(id) === controller) controllersRef.current.delete(id);
+      });
+  }, [nextId]);
+
+  // Stop whatever is running if the component unmounts
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  return { items, add, cancel, retry, remove };
+}
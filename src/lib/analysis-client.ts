@@ -0,0 +1,134 @@
+import {
+  ANALYSIS_STAGES,
+  type AnalysisProgress,
+  type AnalysisResult,
+  type AnalysisStage,
+  type CaptureDetails,
+} from '@/lib/analysis';
+import type { AnalysisRequest, AnalysisResponse } from '@/lib/analysis.worker';
+import type { DecodedAudio } from '@/lib/audio/decode';
+import { AudioQualityError } from '@/lib/audio/errors';
+import {
+  DEFAULT_PREPROCESSING,
+  type NoiseProfile,
+  type PreprocessingOptions,
+} from '@/lib/audio/preprocess';
+
+interface AnalyzeOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+  preprocessing?: PreprocessingOptions;
+}
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+const progressAt = (stage: AnalysisStage): AnalysisProgress => ({
+  stage,
+  progress: ANALYSIS_STAGES.indexOf(stage) / ANALYSIS_STAGES.length,
+});
+
+// Posts one request to a fresh worker and hands each response to `onResponse`
+// until it settles. Aborting terminates the worker mid-request
+function runInWorker<T>(
+  request: AnalysisRequest,
+  signal: AbortSignal | undefined,
+  onResponse: (
+    response: AnalysisResponse,
+    resolve: (value: T) => void,
+    reject: (error: unknown) => void
+  ) => void
+): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = ({ data }: MessageEvent<AnalysisResponse>) =>
+      onResponse(
+        data,
+        (value) => {
+          finish();
+          resolve(value);
+        },
+        (error) => {
+          finish();
+          reject(error);
+        }
+      );
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(request);
+  });
+}
+
+// Runs the pipeline on decoded audio in a dedicated worker, so long recordings
+// do not block the page. Decoding stays on the main thread, since workers have
+// no AudioContext. Rejects with AudioQualityError when the recording is too
+// poor to score
+export function analyzeDecoded(
+  decoded: DecodedAudio,
+  capture: CaptureDetails = {},
+  { signal, onProgress, preprocessing = DEFAULT_PREPROCESSING }: AnalyzeOptions = {}
+): Promise<AnalysisResult> {
+  const request: AnalysisRequest = {
+    type: 'analyze',
+    samples: decoded.samples,
+    sampleRate: decoded.sampleRate,
+    capture: { ...capture, sourceSampleRate: decoded.source.sampleRate },
+    preprocessing,
+  };
+  const result = runInWorker<AnalysisResult>(request, signal, (data, resolve, reject) => {
+    switch (data.type) {
+      case 'stage':
+        onProgress?.(progressAt(data.stage));
+        break;
+      case 'result':
+        resolve(data.result);
+        break;
+      case 'rejected':
+        reject(new AudioQualityError(data.quality));
+        break;
+      case 'error':
+        reject(new Error(data.message));
+        break;
+    }
+  });
+  // Decoding is already done; reported up front so progress shows while the
+  // worker starts
+  if (!signal?.aborted) onProgress?.(progressAt('quality'));
+  return result;
+}
+
+// Applies the cleanup analysis would apply, off the main thread, so the result
+// can be listened to during review
+export function previewPreprocessing(
+  decoded: DecodedAudio,
+  preprocessing: PreprocessingOptions,
+  noiseProfile: NoiseProfile | null,
+  signal?: AbortSignal
+): Promise<Float32Array> {
+  const request: AnalysisRequest = {
+    type: 'preview',
+    samples: decoded.samples,
+    sampleRate: decoded.sampleRate,
+    preprocessing,
+    noiseProfile,
+  };
+  return runInWorker<Float32Array>(request, signal, (data, resolve, reject) => {
+    if (data.type === 'preview') resolve(data.samples);
+    else if (data.type === 'error') reject(new Error(data.message));
+  });
+}
@@ -0,0 +1,272 @@
+import type { TranslationKey } from '@/lib/i18n';
+import type { CalibrationMetrics } from '@/lib/audio/calibration';
+import type { RecordingSegment } from '@/lib/audio/recorder';
+import { extractFrames } from '@/lib/audio/features';
+import { measureVoice, type VoiceMeasures } from '@/lib/audio/pitch';
+import { measurePauses, type PauseStatistics } from '@/lib/audio/pauses';
+import { measureSpeechRate, type SpeechRateMeasures } from '@/lib/audio/syllables';
+import { extractFeatureSet, type FeatureVector } from '@/lib/audio/feature-set';
+import { assessQuality, type QualityReport } from '@/lib/audio/quality';
+import { selectProfile, type AcousticProfileName, type Norm } from '@/lib/audio/profiles';
+import { AudioQualityError } from '@/lib/audio/errors';
+import {
+  preprocess,
+  type NoiseProfile,
+  type PreprocessingOptions,
+  type PreprocessingReport,
+} from '@/lib/audio/preprocess';
+
+// Define types for better type safety
+export interface VoiceBiomarker {
+  name: TranslationKey;
+  value: number;
+  weight: number;
+  description: TranslationKey;
+}
+
+export interface AnalysisResult {
+  score: number;
+  risk: 'High' | 'Moderate' | 'Low';
+  // Follows recording quality and how many biomarkers could be measured, 0-100
+  confidence: number;
+  // Null where the measure could not be taken from this sample
+  indicators: {
+    speechClarity: number | null;
+    wordRecall: number | null;
+    sentenceStructure: number | null;
+    pausePatterns: number | null;
+    prosody: number | null;
+    articulationRate: number | null;
+    voiceQuality: number | null;
+    semanticCoherence: number | null;
+  };
+  biomarkers: VoiceBiomarker[];
+  detected: boolean;
+  // Pitch and perturbation measures; null if too little of the sample was voiced
+  voice: VoiceMeasures | null;
+  pauses: PauseStatistics;
+  rate: SpeechRateMeasures;
+  quality: QualityReport;
+  // Telephone audio is measured in the phone band and against telephone norms
+  profile: AcousticProfileName;
+  preprocessing: PreprocessingReport;
+  // eGeMAPS-style descriptors for research comparison and external models
+  features: FeatureVector;
+  // Environment check run before the recording, if any
+  calibration: CalibrationMetrics | null;
+  // Stretches between operator pauses; null for uploaded files
+  segments: RecordingSegment[] | null;
+}
+
+// Pipeline stages in the order they run. Decoding happens on the main thread,
+// since workers have no AudioContext, and before review; the worker reports
+// the rest
+export const ANALYSIS_STAGES = [
+  'decoding',
+  'quality',
+  'preprocessing',
+  'voice-activity',
+  'acoustic',
+  'scoring',
+] as const;
+
+export type AnalysisStage = (typeof ANALYSIS_STAGES)[number];
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  // Fraction of the pipeline completed, 0 to 1
+  progress: number;
+}
+
+// What is known about how a sample was captured
+export interface CaptureDetails {
+  calibration?: CalibrationMetrics | null;
+  segments?: RecordingSegment[] | null;
+  // Room noise measured during calibration
+  noiseProfile?: NoiseProfile | null;
+  // Native rate of the file before resampling, where the container gives it
+  sourceSampleRate?: number | null;
+}
+
+// Maps a measurement onto 0-100, where `typical` scores 100 and `atypical`
+// scores 0; works whichever way round the two are
+const scoreBetween = (value: number, [typical, atypical]: Norm): number => {
+  const position = (value - atypical) / (typical - atypical);
+  return Math.round(100 * Math.min(1, Math.max(0, position)));
+};
+
+// Mean of the scores that could be measured, or null if none could
+const averageScore = (...scores: (number | null)[]): number | null => {
+  const measured = scores.filter((score): score is number => score !== null);
+  return measured.length ? Math.round(measured.reduce((a, b) => a + b, 0) / measured.length) : null;
+};
+
+// Calculate weighted score from biomarkers
+const calculateWeightedScore = (biomarkers: VoiceBiomarker[]): number => {
+  let totalWeight = 0;
+  let weightedSum = 0;
+
+  biomarkers.forEach(marker => {
+    weightedSum += marker.value * marker.weight;
+    totalWeight += marker.weight;
+  });
+
+  return Math.round(weightedSum / totalWeight);
+};
+
+// Enhanced analysis pipeline with more sophisticated biomarkers. Runs
+// synchronously, so it belongs in a worker; `onStage` fires as each stage begins.
+// Throws AudioQualityError for samples too poor to score
+export function runAnalysis(
+  input: Float32Array,
+  sampleRate: number,
+  capture: CaptureDetails,
+  options: PreprocessingOptions,
+  onStage: (stage: AnalysisStage) => void
+): AnalysisResult {
+  onStage('quality');
+  // Judged on the raw input, since cleanup can hide but not undo poor recording
+  const quality = assessQuality(input, sampleRate);
+  if (quality.verdict === 'block') throw new AudioQualityError(quality);
+  const profile = selectProfile(capture.sourceSampleRate ?? null, quality.bandwidthHz);
+  const { band, norms, weights } = profile;
+
+  onStage('preprocessing');
+  const { samples, report: preprocessing } = preprocess(
+    input,
+    sampleRate,
+    options,
+    capture.noiseProfile ?? null
+  );
+
+  onStage('voice-activity');
+  const frames = extractFrames(samples, sampleRate, band);
+  // Where the recorder was paused, silence on either side of the join is the
+  // operator's, not the speaker's
+  const joins = (capture.segments ?? []).slice(1).map((segment) => segment.start);
+  const pauses = measurePauses(frames.speech, frames.frameSeconds, joins);
+
+  onStage('acoustic');
+  const { contour, measures: voice } = measureVoice(samples, sampleRate, frames);
+  const rate = measureSpeechRate(samples, sampleRate, frames, contour);
+  const features = extractFeatureSet(samples, sampleRate, frames, contour, band);
+  // Scored in percent, the unit clinical norms for jitter and shimmer use
+  const jitterScore =
+    voice && voice.jitter !== null ? scoreBetween(100 * voice.jitter, norms.jitterPercent) : null;
+  const shimmerScore =
+    voice && voice.shimmer !== null ? scoreBetween(100 * voice.shimmer, norms.shimmerPercent) : null;
+  const hnrScore = voice ? scoreBetween(voice.hnrDb, norms.hnrDb) : null;
+
+  onStage('scoring');
+  // Norms and weights come from the acoustic profile; a biomarker is left out
+  // when its feature could not be measured
+  const measured: (Omit<VoiceBiomarker, 'value'> & { value: number | null })[] = [
+    {
+      name: "phonemeArticulation",
+      // Sharper syllable onsets rise further above the surrounding dips
+      value:
+        rate.syllableContrastDb === null
+          ? null
+          : scoreBetween(rate.syllableContrastDb, norms.syllableContrastDb),
+      weight: weights.phonemeArticulation,
+      description: "phonemeArticulationDesc"
+    },
+    {
+      name: "pauseFrequency",
+      value: scoreBetween(pauses.perMinute, norms.pausesPerMinute),
+      weight: weights.pauseFrequency,
+      description: "pauseFrequencyDesc"
+    },
+    {
+      name: "speechRateConsistency",
+      value: rate.rateVariation === null ? null : scoreBetween(rate.rateVariation, norms.rateVariation),
+      weight: weights.speechRateConsistency,
+      description: "speechRateConsistencyDesc"
+    },
+    {
+      name: "prosodicVariation",
+      // Flat, monotonous pitch scores low
+      value: voice ? scoreBetween(voice.f0StdSemitones, norms.f0StdSemitones) : null,
+      weight: weights.prosodicVariation,
+      description: "prosodicVariationDesc"
+    },
+    {
+      name: "voiceTremor",
+      // Cycle-to-cycle instability in pitch and loudness
+      value: averageScore(jitterScore, shimmerScore),
+      weight: weights.voiceTremor,
+      description: "voiceTremorDesc"
+    },
+    {
+      name: "wordFindingDelay",
+      // Long silences mid-utterance, typically while searching for a word
+      value: averageScore(
+        scoreBetween(pauses.meanSeconds, norms.meanPauseSeconds),
+        scoreBetween(pauses.longCount / Math.max(1, pauses.count), norms.longPauseShare)
+      ),
+      weight: weights.wordFindingDelay,
+      description: "wordFindingDelayDesc"
+    }
+  ];
+  const biomarkers = measured.filter((marker): marker is VoiceBiomarker => marker.value !== null);
+  const valueOf = (name: TranslationKey) =>
+    biomarkers.find((marker) => marker.name === name)?.value ?? null;
+
+  // Calculate weighted score based on biomarkers
+  const weightedScore = calculateWeightedScore(biomarkers);
+
+  // Determine risk level based on weighted score
+  let risk: 'High' | 'Moderate' | 'Low';
+  if (weightedScore < 70) {
+    risk = 'High';
+  } else if (weightedScore < 85) {
+    risk = 'Moderate';
+  } else {
+    risk = 'Low';
+  }
+
+  // Better recordings give steadier estimates, and every biomarker that could
+  // not be measured costs a little
+  const confidence = Math.max(
+    0,
+    50 + 45 * quality.score - 5 * (measured.length - biomarkers.length)
+  );
+
+  const indicators = {
+    speechClarity: valueOf('phonemeArticulation'),
+    wordRecall: null,
+    sentenceStructure: null,
+    pausePatterns: averageScore(
+      valueOf('pauseFrequency'),
+      valueOf('wordFindingDelay'),
+      scoreBetween(pauses.phonationRatio, norms.phonationRatio)
+    ),
+    prosody: valueOf('prosodicVariation'),
+    articulationRate:
+      rate.syllables > 0 ? scoreBetween(rate.articulationRate, norms.articulationRate) : null,
+    voiceQuality: averageScore(hnrScore, jitterScore, shimmerScore),
+    semanticCoherence: null
+  };
+
+  // Determine if Alzheimer's is detected based on weighted score
+  // Using a more conservative threshold for detection
+  const detected = weightedScore < 78;
+
+  return {
+    score: weightedScore,
+    risk,
+    confidence: Math.round(confidence),
+    indicators,
+    biomarkers,
+    detected,
+    voice,
+    pauses,
+    rate,
+    quality,
+    profile: profile.name,
+    preprocessing,
+    features,
+    calibration: capture.calibration ?? null,
+    segments: capture.segments ?? null
+  };
+}
@@ -0,0 +1,62 @@
+import { runAnalysis, type AnalysisResult, type AnalysisStage, type CaptureDetails } from '@/lib/analysis';
+import { preprocess, type NoiseProfile, type PreprocessingOptions } from '@/lib/audio/preprocess';
+import { AudioQualityError } from '@/lib/audio/errors';
+import type { QualityReport } from '@/lib/audio/quality';
+
+export type AnalysisRequest =
+  | {
+      type: 'analyze';
+      samples: Float32Array;
+      sampleRate: number;
+      capture: CaptureDetails;
+      preprocessing: PreprocessingOptions;
+    }
+  // Only the cleanup, so it can be listened to during review
+  | {
+      type: 'preview';
+      samples: Float32Array;
+      sampleRate: number;
+      preprocessing: PreprocessingOptions;
+      noiseProfile: NoiseProfile | null;
+    };
+
+export type AnalysisResponse =
+  | { type: 'stage'; stage: AnalysisStage }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'preview'; samples: Float32Array }
+  // Error classes do not survive postMessage, so refusal has its own message
+  | { type: 'rejected'; quality: QualityReport }
+  | { type: 'error'; message: string };
+
+const post = (response: AnalysisResponse, transfer: Transferable[] = []) =>
+  self.postMessage(response, { transfer });
+
+// One request per worker; the client terminates the worker to cancel
+self.onmessage = ({ data }: MessageEvent<AnalysisRequest>) => {
+  try {
+    if (data.type === 'preview') {
+      const { samples } = preprocess(
+        data.samples,
+        data.sampleRate,
+        data.preprocessing,
+        data.noiseProfile
+      );
+      post({ type: 'preview', samples }, [samples.buffer]);
+      return;
+    }
+    const result = runAnalysis(
+      data.samples,
+      data.sampleRate,
+      data.capture,
+      data.preprocessing,
+      (stage) => post({ type: 'stage', stage })
+    );
+    post({ type: 'result', result });
+  } catch (error) {
+    if (error instanceof AudioQualityError) {
+      post({ type: 'rejected', quality: error.report });
+      return;
+    }
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,166 @@
+import { CLIP_THRESHOLD, peak, rms, toDecibels } from '@/lib/audio/level';
+import type { MessageParams } from '@/lib/icu';
+import { measureNoiseProfile, type NoiseProfile } from '@/lib/audio/preprocess';
+
+// Length of each calibration phase, in seconds
+export const NOISE_PHASE_SECONDS = 3;
+export const SPEECH_PHASE_SECONDS = 5;
+
+// Frames quieter than this cannot be measured reliably on consumer hardware
+const SILENCE_DB = -100;
+
+// SNR below `block` makes features unreliable; below `warn` confidence suffers
+export const SNR_DB = { block: 10, warn: 20 };
+// Share of analysis frames containing a clipped peak
+export const CLIPPING_RATIO = { block: 0.05, warn: 0.01 };
+// Speech quieter than this is likely too far from the microphone
+const MIN_SPEECH_DB = -40;
+// The sample phrase must rise at least this far above the noise floor to count as speech
+const MIN_SPEECH_RISE_DB = 6;
+
+export interface CalibrationMetrics {
+  // Typical room level while the patient is silent, in dBFS
+  noiseFloorDb: number;
+  // Typical level of the sample phrase, in dBFS
+  speechLevelDb: number;
+  snrDb: number;
+  // Share of speech frames with a clipped peak, 0–1
+  clippingRatio: number;
+  measuredAt: string;
+}
+
+export type CalibrationIssue = 'no-speech' | 'noisy' | 'clipping' | 'too-quiet';
+
+export interface CalibrationResult {
+  metrics: CalibrationMetrics;
+  issues: CalibrationIssue[];
+  // `block` means recording would produce unusable results
+  verdict: 'ok' | 'warn' | 'block';
+  // Spectrum of the room noise, for noise reduction of the recording that follows
+  noiseProfile: NoiseProfile | null;
+}
+
+interface LevelFrames {
+  levelsDb: number[];
+  clippedFrames: number;
+  // Raw analyser blocks, one per entry of `levelsDb`, at `sampleRate`
+  blocks: Float32Array[];
+  sampleRate: number;
+}
+
+// Samples the stream's level once per analyser block for `seconds`.
+// Resolves early with what was collected if `signal` aborts
+export async function measureLevels(
+  stream: MediaStream,
+  seconds: number,
+  signal?: AbortSignal
+): Promise<LevelFrames> {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  const frames: LevelFrames = {
+    levelsDb: [],
+    clippedFrames: 0,
+    blocks: [],
+    sampleRate: context.sampleRate,
+  };
+  // One block of samples lasts this long, so reading at this interval avoids overlap
+  const blockMs = (analyser.fftSize / context.sampleRate) * 1000;
+
+  try {
+    await new Promise<void>((resolve) => {
+      const timer = setInterval(() => {
+        analyser.getFloatTimeDomainData(samples);
+        frames.levelsDb.push(Math.max(SILENCE_DB, toDecibels(rms(samples))));
+        if (peak(samples) >= CLIP_THRESHOLD) frames.clippedFrames++;
+        frames.blocks.push(samples.slice());
+      }, blockMs);
+      const finish = () => {
+        clearInterval(timer);
+        clearTimeout(timeout);
+        resolve();
+      };
+      const timeout = setTimeout(finish, seconds * 1000);
+      signal?.addEventListener('abort', finish, { once: true });
+    });
+  } finally {
+    source.disconnect();
+    await context.close();
+  }
+  return frames;
+}
+
+function percentile(values: number[], fraction: number): number {
+  if (values.length === 0) return SILENCE_DB;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+export function computeCalibrationMetrics(
+  noise: LevelFrames,
+  speech: LevelFrames
+): CalibrationMetrics {
+  // The median ignores the odd cough or door slam during the silent phase;
+  // the 90th percentile picks out voiced frames between the words of the phrase
+  const noiseFloorDb = percentile(noise.levelsDb, 0.5);
+  const speechLevelDb = percentile(speech.levelsDb, 0.9);
+  return {
+    noiseFloorDb,
+    speechLevelDb,
+    snrDb: speechLevelDb - noiseFloorDb,
+    clippingRatio: speech.levelsDb.length ? speech.clippedFrames / speech.levelsDb.length : 0,
+    measuredAt: new Date().toISOString(),
+  };
+}
+
+// Noise spectrum of the silent phase. Like the noise floor, it leaves out
+// blocks louder than the median so a cough does not end up in the profile
+export function calibrationNoiseProfile(noise: LevelFrames): NoiseProfile | null {
+  const median = percentile(noise.levelsDb, 0.5);
+  const quiet = noise.blocks.filter((_, index) => noise.levelsDb[index] <= median);
+  return measureNoiseProfile(quiet, noise.sampleRate);
+}
+
+export function assessCalibration(
+  metrics: CalibrationMetrics,
+  noiseProfile: NoiseProfile | null = null
+): CalibrationResult {
+  const blocking: CalibrationIssue[] = [];
+  const warnings: CalibrationIssue[] = [];
+
+  if (metrics.snrDb < MIN_SPEECH_RISE_DB) {
+    blocking.push('no-speech');
+  } else if (metrics.snrDb < SNR_DB.block) {
+    blocking.push('noisy');
+  } else if (metrics.snrDb < SNR_DB.warn) {
+    warnings.push('noisy');
+  }
+
+  if (metrics.clippingRatio >= CLIPPING_RATIO.block) blocking.push('clipping');
+  else if (metrics.clippingRatio >= CLIPPING_RATIO.warn) warnings.push('clipping');
+
+  if (!blocking.includes('no-speech') && metrics.speechLevelDb < MIN_SPEECH_DB) {
+    warnings.push('too-quiet');
+  }
+
+  return {
+    metrics,
+    issues: [...blocking, ...warnings],
+    verdict: blocking.length ? 'block' : warnings.length ? 'warn' : 'ok',
+    noiseProfile,
+  };
+}
+
+// Parameters for the `calibrationMetrics` translation
+export function calibrationMessageParams(metrics: CalibrationMetrics): MessageParams {
+  return {
+    noise: metrics.noiseFloorDb,
+    speech: metrics.speechLevelDb,
+    snr: metrics.snrDb,
+    clipping: metrics.clippingRatio,
+  };
+}
@@ -0,0 +1,236 @@
+import { AudioFileError } from '@/lib/audio/errors';
+
+// Every sample is analysed at this rate; speech carries little above 8 kHz
+export const ANALYSIS_SAMPLE_RATE = 16000;
+
+// Uploads longer than this are rejected rather than decoded, in seconds
+export const MAX_UPLOAD_SECONDS = 10 * 60;
+
+// Highest bitrate expected of a file whose header does not give its duration,
+// in bytes per second: 96 kHz 24-bit stereo, as lossless M4A can carry. A
+// larger file cannot be within MAX_UPLOAD_SECONDS
+const MAX_BYTES_PER_SECOND = 96000 * 3 * 2;
+
+// Headers needed for sniffing and probing sit well within this many leading
+// bytes; the last Ogg page sits within as many trailing ones
+const PROBE_BYTES = 64 * 1024;
+
+export type AudioFormat = 'wav' | 'mp3' | 'aac' | 'm4a' | 'ogg' | 'webm' | 'flac';
+
+export interface DecodedAudio {
+  // Mono PCM at ANALYSIS_SAMPLE_RATE
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+  // Properties of the file as supplied, before down-mixing and resampling
+  source: {
+    format: AudioFormat;
+    // Null when the container does not expose it cheaply (WebM, M4A)
+    sampleRate: number | null;
+    channels: number;
+  };
+}
+
+// Mixes all channels of a buffer down to one
+export function toMono(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+// Down-mixes and resamples in one pass; the offline context does both when
+// rendering a multi-channel buffer into a mono destination at a different rate
+export async function resampleToMono(buffer: AudioBuffer, sampleRate: number): Promise<Float32Array> {
+  if (buffer.sampleRate === sampleRate) return toMono(buffer);
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const context = new OfflineAudioContext(1, length, sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.connect(context.destination);
+  source.start();
+  const rendered = await context.startRendering();
+  return rendered.getChannelData(0);
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Identifies the container from its leading bytes; file names and MIME types
+// are too often missing or wrong to be trusted
+export function sniffFormat(bytes: Uint8Array): AudioFormat | null {
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return 'wav';
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'flac';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'webm';
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'm4a';
+  if (ascii(bytes, 0, 3) === 'ID3') return 'mp3';
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+    // ADTS AAC shares MPEG audio's frame sync but always has layer bits 00
+    return (bytes[1] & 0x06) === 0 ? 'aac' : 'mp3';
+  }
+  return null;
+}
+
+const MPEG_SAMPLE_RATES = [44100, 48000, 32000];
+const ADTS_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350,
+];
+
+// Reads the native sample rate from the container header where that is a fixed offset away
+function probeSampleRate(bytes: Uint8Array, format: AudioFormat): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const inRange = (offset: number, length: number) => offset + length <= bytes.length;
+
+  switch (format) {
+    case 'wav': {
+      // Walk the RIFF chunks to the `fmt ` chunk
+      let offset = 12;
+      while (inRange(offset, 8)) {
+        const size = view.getUint32(offset + 4, true);
+        if (ascii(bytes, offset, 4) === 'fmt ' && inRange(offset, 16)) {
+          return view.getUint32(offset + 12, true);
+        }
+        offset += 8 + size + (size % 2);
+      }
+      return null;
+    }
+    case 'flac':
+      // 20-bit field in the STREAMINFO block, which always comes first
+      return inRange(18, 3) ? (bytes[18] << 12) | (bytes[19] << 4) | (bytes[20] >> 4) : null;
+    case 'ogg': {
+      // The first packet starts after the page header and its segment table
+      const packet = 27 + (bytes[26] ?? 0);
+      const codec = ascii(bytes, packet, 8);
+      if ((codec === 'OpusHead' || codec.slice(1, 7) === 'vorbis') && inRange(packet + 12, 4)) {
+        return view.getUint32(packet + 12, true) || null;
+      }
+      return null;
+    }
+    case 'mp3': {
+      // Skip an ID3v2 tag, whose size is stored as four 7-bit bytes
+      let offset = 0;
+      if (ascii(bytes, 0, 3) === 'ID3' && inRange(6, 4)) {
+        offset = 10 + ((bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9]);
+      }
+      for (; inRange(offset, 4); offset++) {
+        if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) continue;
+        const version = (bytes[offset + 1] >> 3) & 0x03;
+        const index = (bytes[offset + 2] >> 2) & 0x03;
+        if (version === 1 || index === 3) continue;
+        // MPEG-2 halves and MPEG-2.5 quarters the MPEG-1 rates
+        const divisor = version === 3 ? 1 : version === 2 ? 2 : 4;
+        return MPEG_SAMPLE_RATES[index] / divisor;
+      }
+      return null;
+    }
+    case 'aac':
+      return ADTS_SAMPLE_RATES[(bytes[2] >> 2) & 0x0f] ?? null;
+    default:
+      return null;
+  }
+}
+
+// Reads the duration in seconds from the container where it is stored up front
+// (WAV, FLAC) or in the last page (Ogg). Null for the other formats, and where
+// the header leaves it unset
+async function probeDuration(
+  file: Blob,
+  bytes: Uint8Array,
+  format: AudioFormat
+): Promise<number | null> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const inRange = (offset: number, length: number) => offset + length <= bytes.length;
+
+  switch (format) {
+    case 'wav': {
+      // PCM, so the data size over the byte rate in the `fmt ` chunk. A
+      // streamed file leaves the data size at 0 or all ones; the file size
+      // stands in for it then
+      let byteRate = 0;
+      let dataSize = file.size;
+      let offset = 12;
+      while (inRange(offset, 8)) {
+        const size = view.getUint32(offset + 4, true);
+        if (ascii(bytes, offset, 4) === 'fmt ' && inRange(offset, 20)) {
+          byteRate = view.getUint32(offset + 16, true);
+        } else if (ascii(bytes, offset, 4) === 'data') {
+          if (size > 0 && size < 0xffffffff) dataSize = size;
+          break;
+        }
+        offset += 8 + size + (size % 2);
+      }
+      return byteRate ? dataSize / byteRate : null;
+    }
+    case 'flac': {
+      // Big-endian 36-bit total sample count closing STREAMINFO, 0 when unknown
+      const sampleRate = probeSampleRate(bytes, format);
+      if (!sampleRate || !inRange(22, 4)) return null;
+      const total = (bytes[21] & 0x0f) * 2 ** 32 + view.getUint32(22);
+      return total ? total / sampleRate : null;
+    }
+    case 'ogg': {
+      // The granule position of the last page counts samples, always at 48 kHz
+      // for Opus and at the stream rate for Vorbis
+      const packet = 27 + (bytes[26] ?? 0);
+      const opus = ascii(bytes, packet, 8) === 'OpusHead';
+      const granuleRate = opus ? 48000 : probeSampleRate(bytes, format);
+      if (!granuleRate) return null;
+      const tail = new Uint8Array(await file.slice(-PROBE_BYTES).arrayBuffer());
+      const tailView = new DataView(tail.buffer);
+      for (let page = tail.length - 14; page >= 0; page--) {
+        if (ascii(tail, page, 4) !== 'OggS') continue;
+        const low = tailView.getUint32(page + 6, true);
+        const high = tailView.getUint32(page + 10, true);
+        // All ones marks a page on which no packet ends
+        if (low === 0xffffffff && high === 0xffffffff) continue;
+        const preSkip = opus && inRange(packet + 10, 2) ? view.getUint16(packet + 10, true) : 0;
+        return Math.max(0, high * 2 ** 32 + low - preSkip) / granuleRate;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Decodes an uploaded file to mono PCM at the analysis rate. Rejects with an
+// AudioFileError saying why the file cannot be used. The length is checked
+// from the file size and header before the whole file is read or decoded
+export async function decodeAudioFile(file: Blob): Promise<DecodedAudio> {
+  if (file.size === 0) throw new AudioFileError('empty');
+
+  const header = new Uint8Array(await file.slice(0, PROBE_BYTES).arrayBuffer());
+  const format = sniffFormat(header);
+  if (!format) throw new AudioFileError('unsupported-format');
+  const sourceSampleRate = probeSampleRate(header, format);
+  const duration = await probeDuration(file, header, format);
+  if ((duration ?? file.size / MAX_BYTES_PER_SECOND) > MAX_UPLOAD_SECONDS) {
+    throw new AudioFileError('too-long');
+  }
+
+  let buffer: AudioBuffer;
+  const context = new AudioContext();
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    throw new AudioFileError('corrupt', error);
+  } finally {
+    await context.close();
+  }
+
+  if (buffer.length === 0) throw new AudioFileError('empty');
+  // Formats without a duration in the header are only known once decoded
+  if (buffer.duration > MAX_UPLOAD_SECONDS) throw new AudioFileError('too-long');
+
+  const samples = await resampleToMono(buffer, ANALYSIS_SAMPLE_RATE);
+  return {
+    samples,
+    sampleRate: ANALYSIS_SAMPLE_RATE,
+    duration: samples.length / ANALYSIS_SAMPLE_RATE,
+    source: { format, sampleRate: sourceSampleRate, channels: buffer.numberOfChannels },
+  };
+}
@@ -0,0 +1,98 @@
+import type { QualityReport } from '@/lib/audio/quality';
+
+export type RecordingErrorCode =
+  // The user or browser policy blocked microphone access
+  | 'permission-denied'
+  // No audio input device is connected, or the selected one disappeared
+  | 'no-device'
+  // The device exists but another application or a hardware fault holds it
+  | 'device-busy'
+  // getUserMedia is only exposed on HTTPS or localhost
+  | 'insecure-context'
+  // The browser lacks getUserMedia or MediaRecorder
+  | 'unsupported'
+  | 'unknown';
+
+export class RecordingError extends Error {
+  readonly code: RecordingErrorCode;
+  readonly cause: unknown;
+
+  constructor(code: RecordingErrorCode, cause?: unknown) {
+    super(`Recording failed: ${code}`);
+    this.name = 'RecordingError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+// Maps the DOMException names raised by getUserMedia onto our taxonomy
+export function toRecordingError(error: unknown): RecordingError {
+  if (error instanceof RecordingError) return error;
+
+  const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+  switch (name) {
+    case 'NotAllowedError':
+    case 'PermissionDeniedError':
+      return new RecordingError('permission-denied', error);
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+    case 'OverconstrainedError':
+      return new RecordingError('no-device', error);
+    case 'NotReadableError':
+    case 'TrackStartError':
+    case 'AbortError':
+      return new RecordingError('device-busy', error);
+    case 'SecurityError':
+      return new RecordingError(
+        window.isSecureContext ? 'permission-denied' : 'insecure-context',
+        error
+      );
+    case 'NotSupportedError':
+      return new RecordingError('unsupported', error);
+    default:
+      return new RecordingError('unknown', error);
+  }
+}
+
+// Fails fast with a specific code before prompting for the microphone
+export function assertRecordingSupported() {
+  if (!window.isSecureContext) throw new RecordingError('insecure-context');
+  if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+    throw new RecordingError('unsupported');
+  }
+}
+
+export type AudioFileErrorCode =
+  // Zero bytes, or decodes to no samples
+  | 'empty'
+  // Not one of the containers we accept
+  | 'unsupported-format'
+  // Recognised container that the browser could not decode
+  | 'corrupt'
+  // Longer than an upload is allowed to be
+  | 'too-long'
+  // Decodes fine but carries too little voiced speech to score
+  | 'too-little-speech';
+
+export class AudioFileError extends Error {
+  readonly code: AudioFileErrorCode;
+  readonly cause: unknown;
+
+  constructor(code: AudioFileErrorCode, cause?: unknown) {
+    super(`Audio file rejected: ${code}`);
+    this.name = 'AudioFileError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+// The sample decoded and holds speech, but too poorly recorded to score
+export class AudioQualityError extends Error {
+  readonly report: QualityReport;
+
+  constructor(report: QualityReport) {
+    super(`Recording quality too low: ${report.issues.join(', ')}`);
+    this.name = 'AudioQualityError';
+    this.report = report;
+  }
+}
@@ -0,0 +1,84 @@
+import type { FrameTrack } from '@/lib/audio/features';
+import { estimateFormants, FORMANT_COUNT } from '@/lib/audio/formants';
+import type { PitchFrame } from '@/lib/audio/pitch';
+import type { FrequencyBand } from '@/lib/audio/profiles';
+import { analyzeSpectrum, MFCC_COUNT } from '@/lib/audio/spectral';
+import { mean, percentile, std } from '@/lib/audio/stats';
+
+// Reference for semitone pitch, as in eGeMAPS
+const SEMITONE_REFERENCE_HZ = 27.5;
+
+// Statistics taken of each frame-level descriptor over the voiced frames
+const FUNCTIONALS: Record<string, (values: number[]) => number> = {
+  mean,
+  std,
+  p20: (values) => percentile(values, 20),
+  p50: (values) => percentile(values, 50),
+  p80: (values) => percentile(values, 80),
+};
+
+const DESCRIPTORS = [
+  'f0Semitone',
+  'loudness',
+  'spectralCentroid',
+  'spectralFlux',
+  'spectralSlope0-500',
+  'spectralSlope500-1500',
+  ...Array.from({ length: MFCC_COUNT }, (_, i) => `mfcc${i + 1}`),
+  ...Array.from({ length: FORMANT_COUNT }, (_, i) => `F${i + 1}`),
+];
+
+// Every name in a feature vector, in a fixed order: `<descriptor>_<functional>`
+export const FEATURE_NAMES = DESCRIPTORS.flatMap((descriptor) =>
+  Object.keys(FUNCTIONALS).map((functional) => `${descriptor}_${functional}`)
+);
+
+// eGeMAPS-style descriptors keyed by FEATURE_NAMES. A value is null when no
+// voiced frame yielded that descriptor
+export type FeatureVector = Record<string, number | null>;
+
+// Frame-level spectral, cepstral and formant descriptors over the voiced
+// frames of a mono signal, summarised by their functionals. Spectral
+// descriptors stay within `band` for band-limited audio
+export function extractFeatureSet(
+  samples: Float32Array,
+  sampleRate: number,
+  track: FrameTrack,
+  contour: (PitchFrame | null)[],
+  band?: FrequencyBand
+): FeatureVector {
+  const frameLength = Math.round(track.frameSeconds * sampleRate);
+  const series = new Map<string, number[]>(DESCRIPTORS.map((name) => [name, []]));
+  const add = (name: string, value: number | null) => {
+    if (value !== null && Number.isFinite(value)) series.get(name)?.push(value);
+  };
+
+  let previous: Float32Array | null = null;
+  contour.forEach((pitch, index) => {
+    if (!pitch) {
+      // Flux is only meaningful between consecutive voiced frames
+      previous = null;
+      return;
+    }
+    const frame = samples.subarray(index * frameLength, (index + 1) * frameLength);
+    const { descriptors, power } = analyzeSpectrum(frame, sampleRate, previous, band);
+    add('f0Semitone', 12 * Math.log2(pitch.f0 / SEMITONE_REFERENCE_HZ));
+    add('loudness', descriptors.loudness);
+    add('spectralCentroid', descriptors.centroidHz);
+    if (previous) add('spectralFlux', descriptors.flux);
+    add('spectralSlope0-500', descriptors.slopeLow);
+    add('spectralSlope500-1500', descriptors.slopeHigh);
+    descriptors.mfcc.forEach((value, i) => add(`mfcc${i + 1}`, value));
+    estimateFormants(frame, sampleRate, band).forEach((hz, i) => add(`F${i + 1}`, hz));
+    previous = power;
+  });
+
+  const vector: FeatureVector = {};
+  for (const descriptor of DESCRIPTORS) {
+    const values = series.get(descriptor) ?? [];
+    for (const [functional, compute] of Object.entries(FUNCTIONALS)) {
+      vector[`${descriptor}_${functional}`] = values.length ? compute(values) : null;
+    }
+  }
+  return vector;
+}
@@ -0,0 +1,34 @@
+import type { FrequencyBand } from '@/lib/audio/profiles';
+import { detectSpeech, frameLevels, VAD_FRAME_SECONDS } from '@/lib/audio/vad';
+
+// Per-frame measurements on the VAD frame grid
+export interface FrameTrack {
+  frameSeconds: number;
+  energyDb: number[];
+  // Zero crossings per sample
+  zcr: number[];
+  speech: boolean[];
+}
+
+export function zeroCrossingRate(frame: Float32Array): number {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if (frame[i - 1] >= 0 !== frame[i] >= 0) crossings++;
+  }
+  return frame.length > 1 ? crossings / (frame.length - 1) : 0;
+}
+
+// Energy, zero-crossing rate and the speech decision for each VAD frame
+export function extractFrames(
+  samples: Float32Array,
+  sampleRate: number,
+  band?: FrequencyBand
+): FrameTrack {
+  const frameLength = Math.max(1, Math.round(VAD_FRAME_SECONDS * sampleRate));
+  const energyDb = frameLevels(samples, sampleRate);
+  const speech = detectSpeech(samples, sampleRate, band);
+  const zcr = energyDb.map((_, index) =>
+    zeroCrossingRate(samples.subarray(index * frameLength, (index + 1) * frameLength))
+  );
+  return { frameSeconds: frameLength / sampleRate, energyDb, zcr, speech };
+}
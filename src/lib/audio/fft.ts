@@ -0,0 +1,103 @@
+// Hann windows and twiddle factors, cached per transform size
+const windows = new Map<number, Float32Array>();
+const twiddles = new Map<number, { cos: Float32Array; sin: Float32Array }>();
+
+export function hannWindow(length: number): Float32Array {
+  let window = windows.get(length);
+  if (!window) {
+    window = new Float32Array(length);
+    for (let i = 0; i < length; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (length - 1));
+    windows.set(length, window);
+  }
+  return window;
+}
+
+function twiddleFactors(size: number) {
+  let factors = twiddles.get(size);
+  if (!factors) {
+    factors = { cos: new Float32Array(size / 2), sin: new Float32Array(size / 2) };
+    for (let i = 0; i < size / 2; i++) {
+      factors.cos[i] = Math.cos((2 * Math.PI * i) / size);
+      factors.sin[i] = -Math.sin((2 * Math.PI * i) / size);
+    }
+    twiddles.set(size, factors);
+  }
+  return factors;
+}
+
+// Smallest power of two holding `length` samples
+export function fftSize(length: number): number {
+  return 2 ** Math.ceil(Math.log2(Math.max(2, length)));
+}
+
+// In-place iterative radix-2 FFT; `size` must be a power of two
+function fft(real: Float32Array, imag: Float32Array) {
+  const size = real.length;
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  const { cos, sin } = twiddleFactors(size);
+  for (let length = 2; length <= size; length <<= 1) {
+    const step = size / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < length / 2; k++) {
+        const wr = cos[k * step];
+        const wi = sin[k * step];
+        const a = start + k;
+        const b = a + length / 2;
+        const tr = real[b] * wr - imag[b] * wi;
+        const ti = real[b] * wi + imag[b] * wr;
+        real[b] = real[a] - tr;
+        imag[b] = imag[a] - ti;
+        real[a] += tr;
+        imag[a] += ti;
+      }
+    }
+  }
+}
+
+// Sum of squared Hann window weights; divides a power spectrum into a
+// density that no longer depends on the frame length
+export function windowEnergy(length: number): number {
+  const window = hannWindow(length);
+  let energy = 0;
+  for (let i = 0; i < length; i++) energy += window[i] * window[i];
+  return energy;
+}
+
+// Complex spectrum of a Hann-windowed frame, zero-padded to `size`
+export function spectrum(
+  frame: Float32Array,
+  size = fftSize(frame.length)
+): { real: Float32Array; imag: Float32Array } {
+  const window = hannWindow(frame.length);
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  for (let i = 0; i < frame.length; i++) real[i] = frame[i] * window[i];
+  fft(real, imag);
+  return { real, imag };
+}
+
+// Real signal whose full spectrum is given; consumes its arguments. Uses the
+// forward transform on the conjugate, which yields the conjugated inverse
+export function inverseSpectrum(real: Float32Array, imag: Float32Array): Float32Array {
+  for (let k = 0; k < imag.length; k++) imag[k] = -imag[k];
+  fft(real, imag);
+  for (let i = 0; i < real.length; i++) real[i] /= real.length;
+  return real;
+}
+
+// Power spectrum of a Hann-windowed frame, zero-padded to `size`. Bin k of the
+// result is k * sampleRate / size Hz, up to the Nyquist frequency
+export function powerSpectrum(frame: Float32Array, size = fftSize(frame.length)): Float32Array {
+  const { real, imag } = spectrum(frame, size);
+  const power = new Float32Array(size / 2 + 1);
+  for (let k = 0; k <= size / 2; k++) power[k] = real[k] * real[k] + imag[k] * imag[k];
+  return power;
+}
@@ -0,0 +1,54 @@
+// Normalised biquad coefficients (a0 divided out)
+export interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// Second-order high-pass from the RBJ audio EQ cookbook; Q = 1/√2 is Butterworth
+export function highPass(cutoffHz: number, sampleRate: number, q = Math.SQRT1_2): Biquad {
+  const w0 = (2 * Math.PI * cutoffHz) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const a0 = 1 + alpha;
+  return {
+    b0: (1 + cos) / 2 / a0,
+    b1: -(1 + cos) / a0,
+    b2: (1 + cos) / 2 / a0,
+    a1: (-2 * cos) / a0,
+    a2: (1 - alpha) / a0,
+  };
+}
+
+// High shelf boosting everything above `cornerHz` by `gainDb`, from the RBJ cookbook
+export function highShelf(cornerHz: number, gainDb: number, sampleRate: number, q = Math.SQRT1_2): Biquad {
+  const A = 10 ** (gainDb / 40);
+  const w0 = (2 * Math.PI * cornerHz) / sampleRate;
+  const cos = Math.cos(w0);
+  const shelf = 2 * Math.sqrt(A) * (Math.sin(w0) / (2 * q));
+  const a0 = A + 1 - (A - 1) * cos + shelf;
+  return {
+    b0: (A * (A + 1 + (A - 1) * cos + shelf)) / a0,
+    b1: (-2 * A * (A - 1 + (A + 1) * cos)) / a0,
+    b2: (A * (A + 1 + (A - 1) * cos - shelf)) / a0,
+    a1: (2 * (A - 1 - (A + 1) * cos)) / a0,
+    a2: (A + 1 - (A - 1) * cos - shelf) / a0,
+  };
+}
+
+// Runs `samples` through a biquad (transposed direct form II) into a new array
+export function applyBiquad(samples: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const output = new Float32Array(samples.length);
+  let z1 = 0;
+  let z2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b0 * x + z1;
+    z1 = b1 * x - a1 * y + z2;
+    z2 = b2 * x - a2 * y;
+    output[i] = y;
+  }
+  return output;
+}
@@ -0,0 +1,81 @@
+import type { FrequencyBand } from '@/lib/audio/profiles';
+import { parabolicOffset } from '@/lib/audio/stats';
+
+export const FORMANT_COUNT = 3;
+
+// Boosts high frequencies so upper formants are not swamped by the glottal roll-off
+const PRE_EMPHASIS = 0.97;
+// Formants are looked for between these frequencies, in Hz
+const MIN_FORMANT_HZ = 90;
+const MAX_FORMANT_HZ = 5000;
+// Points at which the LPC envelope is evaluated up to MAX_FORMANT_HZ
+const ENVELOPE_POINTS = 512;
+
+// Linear prediction coefficients a[0..order], a[0] = 1, by the autocorrelation
+// method and Levinson-Durbin recursion. Null for silent frames
+export function lpc(frame: Float32Array, order: number): Float64Array | null {
+  const r = new Float64Array(order + 1);
+  for (let lag = 0; lag <= order; lag++) {
+    for (let i = lag; i < frame.length; i++) r[lag] += frame[i] * frame[i - lag];
+  }
+  if (r[0] === 0) return null;
+
+  const a = new Float64Array(order + 1);
+  a[0] = 1;
+  let error = r[0];
+  for (let i = 1; i <= order; i++) {
+    let acc = r[i];
+    for (let j = 1; j < i; j++) acc += a[j] * r[i - j];
+    const reflection = -acc / error;
+    const previous = a.slice();
+    for (let j = 1; j < i; j++) a[j] = previous[j] + reflection * previous[i - j];
+    a[i] = reflection;
+    error *= 1 - reflection * reflection;
+    if (error <= 0) return null;
+  }
+  return a;
+}
+
+// F1-F3 of one voiced frame as peaks of the LPC spectral envelope, in Hz.
+// Entries are null where fewer peaks were found. Peaks above `band` are ignored,
+// since a band-limited signal has nothing there but the LPC fit's own shape
+export function estimateFormants(
+  frame: Float32Array,
+  sampleRate: number,
+  band?: FrequencyBand
+): (number | null)[] {
+  const emphasised = new Float32Array(frame.length);
+  for (let i = 0; i < frame.length; i++) {
+    const hamming = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (frame.length - 1));
+    emphasised[i] = (frame[i] - (i > 0 ? PRE_EMPHASIS * frame[i - 1] : 0)) * hamming;
+  }
+
+  // Two poles per kHz of bandwidth, plus two for the glottal and radiation slope
+  const order = 2 + Math.round(sampleRate / 1000);
+  const a = lpc(emphasised, order);
+  const formants: (number | null)[] = Array(FORMANT_COUNT).fill(null);
+  if (!a) return formants;
+
+  const maxHz = Math.min(MAX_FORMANT_HZ, sampleRate / 2, band?.highHz ?? Infinity);
+  const stepHz = maxHz / ENVELOPE_POINTS;
+  // Envelope gain 1 / |A(e^jw)|^2 on a uniform grid
+  const envelope = Array.from({ length: ENVELOPE_POINTS + 1 }, (_, point) => {
+    const w = (2 * Math.PI * point * stepHz) / sampleRate;
+    let re = 0;
+    let im = 0;
+    for (let k = 0; k <= order; k++) {
+      re += a[k] * Math.cos(w * k);
+      im -= a[k] * Math.sin(w * k);
+    }
+    return 1 / (re * re + im * im);
+  });
+
+  let found = 0;
+  for (let point = 1; point < ENVELOPE_POINTS && found < FORMANT_COUNT; point++) {
+    const [before, at, after] = [envelope[point - 1], envelope[point], envelope[point + 1]];
+    if (at <= before || at < after) continue;
+    const hz = (point + parabolicOffset(before, at, after)) * stepHz;
+    if (hz >= MIN_FORMANT_HZ) formants[found++] = hz;
+  }
+  return formants;
+}
@@ -0,0 +1,29 @@
+// Quietest level the meter shows; anything below reads as silence
+export const METER_FLOOR_DB = -60;
+
+// Peaks this close to full scale are treated as clipping
+export const CLIP_THRESHOLD = 0.99;
+
+// Root-mean-square amplitude of a block of samples in [-1, 1]
+export function rms(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+export function peak(samples: Float32Array): number {
+  let max = 0;
+  for (let i = 0; i < samples.length; i++) max = Math.max(max, Math.abs(samples[i]));
+  return max;
+}
+
+// Amplitude relative to digital full scale, in dBFS (0 is the loudest possible)
+export function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? 20 * Math.log10(amplitude) : -Infinity;
+}
+
+// Maps a dBFS level onto 0–1 for display; a log scale matches perceived loudness
+export function meterPosition(decibels: number): number {
+  return Math.min(1, Math.max(0, 1 - decibels / METER_FLOOR_DB));
+}
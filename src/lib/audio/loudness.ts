@@ -0,0 +1,39 @@
+import { applyBiquad, highPass, highShelf } from '@/lib/audio/filters';
+
+// Gating blocks of ITU-R BS.1770, in seconds, overlapping by three quarters
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+// Blocks quieter than this never count...
+const ABSOLUTE_GATE_LUFS = -70;
+// ...nor do blocks this far below the loudness of those that do
+const RELATIVE_GATE_LU = -10;
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// K-weighting: a shelf modelling the head's acoustic effect, then a high-pass
+// ignoring rumble. Designed per rate rather than using the 48 kHz constants
+function kWeight(samples: Float32Array, sampleRate: number): Float32Array {
+  const shelved = applyBiquad(samples, highShelf(1500, 4, sampleRate));
+  return applyBiquad(shelved, highPass(38, sampleRate, 0.5));
+}
+
+// Gated integrated loudness of a mono signal per ITU-R BS.1770, in LUFS.
+// Null when the whole signal falls below the absolute gate
+export function integratedLoudness(samples: Float32Array, sampleRate: number): number | null {
+  const weighted = kWeight(samples, sampleRate);
+  const blockLength = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= weighted.length; start += step) {
+    let sum = 0;
+    for (let i = start; i < start + blockLength; i++) sum += weighted[i] * weighted[i];
+    blocks.push(sum / blockLength);
+  }
+
+  const meanOf = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const audible = blocks.filter((block) => toLufs(block) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return null;
+  const relativeGate = toLufs(meanOf(audible)) + RELATIVE_GATE_LU;
+  const gated = audible.filter((block) => toLufs(block) > relativeGate);
+  return toLufs(meanOf(gated));
+}
@@ -0,0 +1,89 @@
+import { mean, median, sum } from '@/lib/audio/stats';
+
+// Silences shorter than this are gaps between sounds rather than pauses, in seconds
+export const MIN_PAUSE_SECONDS = 0.25;
+// Pauses at least this long suggest searching for a word, in seconds
+export const LONG_PAUSE_SECONDS = 2;
+// Lower edges of the pause-length histogram bins, in seconds; the last bin is open-ended
+export const PAUSE_BIN_EDGES = [MIN_PAUSE_SECONDS, 0.5, 1, LONG_PAUSE_SECONDS, 4];
+
+export interface Pause {
+  // Seconds from the start of the sample
+  start: number;
+  duration: number;
+}
+
+export interface PauseStatistics {
+  count: number;
+  perMinute: number;
+  // Zero when the speaker never paused
+  meanSeconds: number;
+  medianSeconds: number;
+  longCount: number;
+  // Share of the time from first to last speech spent speaking, 0 to 1
+  phonationRatio: number;
+  // Pauses per bin of PAUSE_BIN_EDGES
+  histogram: number[];
+  // Silences spanning a point where the recording was paused, which say
+  // nothing about the speaker and are left out of everything above
+  excludedCount: number;
+}
+
+// Silent stretches between the first and last speech, long enough to be pauses
+export function findPauses(speech: boolean[], frameSeconds: number): Pause[] {
+  const pauses: Pause[] = [];
+  const first = speech.indexOf(true);
+  const last = speech.lastIndexOf(true);
+  let silentFrom: number | null = null;
+  for (let index = first; index <= last && first >= 0; index++) {
+    if (!speech[index]) {
+      silentFrom ??= index;
+    } else if (silentFrom !== null) {
+      const duration = (index - silentFrom) * frameSeconds;
+      if (duration >= MIN_PAUSE_SECONDS) pauses.push({ start: silentFrom * frameSeconds, duration });
+      silentFrom = null;
+    }
+  }
+  return pauses;
+}
+
+// Pause timing for a per-frame speech track. `boundaries` are the times, in
+// seconds, where separately recorded segments were joined
+export function measurePauses(
+  speech: boolean[],
+  frameSeconds: number,
+  boundaries: number[] = []
+): PauseStatistics {
+  const all = findPauses(speech, frameSeconds);
+  const isOperatorPause = ({ start, duration }: Pause) =>
+    boundaries.some((boundary) => boundary >= start && boundary <= start + duration);
+  const pauses = all.filter((pause) => !isOperatorPause(pause));
+  const excluded = all.filter(isOperatorPause);
+
+  const durations = pauses.map((pause) => pause.duration);
+  const speechSeconds = speech.filter(Boolean).length * frameSeconds;
+  const first = speech.indexOf(true);
+  const span =
+    first < 0
+      ? 0
+      : (speech.lastIndexOf(true) - first + 1) * frameSeconds -
+        sum(excluded.map((pause) => pause.duration));
+
+  const histogram = PAUSE_BIN_EDGES.map(() => 0);
+  for (const duration of durations) {
+    let bin = PAUSE_BIN_EDGES.length - 1;
+    while (duration < PAUSE_BIN_EDGES[bin]) bin--;
+    histogram[bin]++;
+  }
+
+  return {
+    count: pauses.length,
+    perMinute: span > 0 ? pauses.length / (span / 60) : 0,
+    meanSeconds: durations.length ? mean(durations) : 0,
+    medianSeconds: durations.length ? median(durations) : 0,
+    longCount: durations.filter((duration) => duration >= LONG_PAUSE_SECONDS).length,
+    phonationRatio: span > 0 ? Math.min(1, speechSeconds / span) : 0,
+    histogram,
+    excludedCount: excluded.length,
+  };
+}
@@ -0,0 +1,215 @@
+import type { FrameTrack } from '@/lib/audio/features';
+import { mean, parabolicOffset, std } from '@/lib/audio/stats';
+
+// Pitch search range covering adult voices
+export const MIN_F0_HZ = 60;
+export const MAX_F0_HZ = 400;
+
+// YIN takes the first lag whose normalised difference dips below this...
+const YIN_THRESHOLD = 0.15;
+// ...or else the deepest dip, provided it is at least this low
+const MAX_APERIODICITY = 0.35;
+// Frames crossing zero more often than this (per sample) are fricatives or noise
+const MAX_VOICED_ZCR = 0.25;
+// Consecutive periods or amplitudes differing by more than these factors are
+// tracking errors rather than perturbation, as in Praat's jitter and shimmer
+const MAX_PERIOD_FACTOR = 1.3;
+const MAX_AMPLITUDE_FACTOR = 1.6;
+// Too few pitched frames for the measures to mean anything
+const MIN_PITCHED_FRAMES = 10;
+
+export interface PitchFrame {
+  f0: number;
+  // Normalised autocorrelation at the pitch period, 0 to 1
+  periodicity: number;
+}
+
+export interface VoiceMeasures {
+  f0MeanHz: number;
+  f0StdHz: number;
+  f0StdSemitones: number;
+  // Mean difference between consecutive glottal periods, as a fraction of the
+  // mean period; null if too few consecutive cycles were found
+  jitter: number | null;
+  // The same for cycle peak amplitudes
+  shimmer: number | null;
+  // Harmonics-to-noise ratio, in dB
+  hnrDb: number;
+}
+
+// YIN pitch estimate for the window starting at `start`, or null if the
+// window is aperiodic. de Cheveigné & Kawahara (2002), steps 1-5
+export function yin(samples: Float32Array, start: number, sampleRate: number): PitchFrame | null {
+  const minLag = Math.floor(sampleRate / MAX_F0_HZ);
+  const maxLag = Math.ceil(sampleRate / MIN_F0_HZ);
+  const window = maxLag;
+  if (start + window + maxLag > samples.length) return null;
+
+  // Cumulative mean normalised difference
+  const difference = new Float32Array(maxLag + 1);
+  difference[0] = 1;
+  let running = 0;
+  for (let lag = 1; lag <= maxLag; lag++) {
+    let total = 0;
+    for (let i = start; i < start + window; i++) {
+      const delta = samples[i] - samples[i + lag];
+      total += delta * delta;
+    }
+    running += total;
+    difference[lag] = running > 0 ? (total * lag) / running : 1;
+  }
+
+  let lag = -1;
+  for (let candidate = minLag; candidate <= maxLag; candidate++) {
+    if (difference[candidate] < YIN_THRESHOLD) {
+      // Follow the dip to its bottom
+      while (candidate < maxLag && difference[candidate + 1] < difference[candidate]) candidate++;
+      lag = candidate;
+      break;
+    }
+  }
+  if (lag < 0) {
+    lag = minLag;
+    for (let candidate = minLag + 1; candidate <= maxLag; candidate++) {
+      if (difference[candidate] < difference[lag]) lag = candidate;
+    }
+    if (difference[lag] > MAX_APERIODICITY) return null;
+  }
+
+  const period =
+    lag > minLag && lag < maxLag
+      ? lag + parabolicOffset(difference[lag - 1], difference[lag], difference[lag + 1])
+      : lag;
+
+  let product = 0;
+  let energyA = 0;
+  let energyB = 0;
+  for (let i = start; i < start + window; i++) {
+    product += samples[i] * samples[i + lag];
+    energyA += samples[i] * samples[i];
+    energyB += samples[i + lag] * samples[i + lag];
+  }
+  const periodicity = Math.max(0, product / (Math.sqrt(energyA * energyB) || 1));
+
+  return { f0: sampleRate / period, periodicity };
+}
+
+// Pitch of each speech frame that looks voiced rather than fricative
+export function trackPitch(
+  samples: Float32Array,
+  sampleRate: number,
+  track: FrameTrack
+): (PitchFrame | null)[] {
+  const frameLength = Math.round(track.frameSeconds * sampleRate);
+  return track.speech.map((isSpeech, index) =>
+    isSpeech && track.zcr[index] <= MAX_VOICED_ZCR
+      ? yin(samples, index * frameLength, sampleRate)
+      : null
+  );
+}
+
+interface Cycle {
+  // Sample position of the cycle's peak, refined between samples
+  position: number;
+  amplitude: number;
+}
+
+// Highest point between two sample positions, refined between samples
+function peakBetween(samples: Float32Array, from: number, to: number): Cycle {
+  let best = Math.max(0, Math.round(from));
+  const end = Math.min(samples.length - 1, Math.round(to));
+  for (let i = best + 1; i <= end; i++) {
+    if (samples[i] > samples[best]) best = i;
+  }
+  if (best === 0 || best === samples.length - 1) return { position: best, amplitude: samples[best] };
+  const [before, at, after] = [samples[best - 1], samples[best], samples[best + 1]];
+  const offset = parabolicOffset(before, at, after);
+  return { position: best + offset, amplitude: at - 0.25 * (before - after) * offset };
+}
+
+// Glottal cycles through each unbroken run of pitched frames, found by
+// stepping from peak to peak one local period at a time
+function findCycles(
+  samples: Float32Array,
+  sampleRate: number,
+  contour: (PitchFrame | null)[],
+  frameLength: number
+): Cycle[][] {
+  const runs: Cycle[][] = [];
+  let run: Cycle[] = [];
+  contour.forEach((frame, index) => {
+    if (!frame) {
+      if (run.length) runs.push(run);
+      run = [];
+      return;
+    }
+    const frameStart = index * frameLength;
+    const period = sampleRate / frame.f0;
+    if (run.length === 0) run.push(peakBetween(samples, frameStart, frameStart + period));
+    for (;;) {
+      const last = run[run.length - 1].position;
+      if (last + period >= frameStart + frameLength || last + 1.2 * period >= samples.length) break;
+      run.push(peakBetween(samples, last + 0.8 * period, last + 1.2 * period));
+    }
+  });
+  if (run.length) runs.push(run);
+  return runs;
+}
+
+// Mean absolute difference between neighbours relative to the mean, skipping
+// pairs too far apart to be genuine neighbours
+function localPerturbation(runs: number[][], maxFactor: number): number | null {
+  const differences: number[] = [];
+  const values: number[] = [];
+  for (const run of runs) {
+    for (let i = 1; i < run.length; i++) {
+      const [a, b] = [run[i - 1], run[i]];
+      if (a <= 0 || b <= 0 || Math.max(a, b) / Math.min(a, b) > maxFactor) continue;
+      differences.push(Math.abs(b - a));
+      values.push(a, b);
+    }
+  }
+  return differences.length >= 2 ? mean(differences) / mean(values) : null;
+}
+
+// Pitch contour and voice perturbation measures of a mono signal, or null
+// measures if too little of it is pitched
+export function measureVoice(
+  samples: Float32Array,
+  sampleRate: number,
+  track: FrameTrack
+): { contour: (PitchFrame | null)[]; measures: VoiceMeasures | null } {
+  const contour = trackPitch(samples, sampleRate, track);
+  const pitched = contour.filter((frame): frame is PitchFrame => frame !== null);
+  if (pitched.length < MIN_PITCHED_FRAMES) return { contour, measures: null };
+
+  const f0 = pitched.map((frame) => frame.f0);
+  const semitones = f0.map((hz) => 12 * Math.log2(hz / MIN_F0_HZ));
+
+  const frameLength = Math.round(track.frameSeconds * sampleRate);
+  const cycles = findCycles(samples, sampleRate, contour, frameLength);
+  const periods = cycles.map((run) =>
+    run.slice(1).map((cycle, i) => cycle.position - run[i].position)
+  );
+  const amplitudes = cycles.map((run) => run.map((cycle) => cycle.amplitude));
+
+  // Boersma (1993): the periodic share r of the signal gives HNR = r / (1 - r)
+  const hnrDb = mean(
+    pitched.map(({ periodicity }) => {
+      const r = Math.min(0.9999, Math.max(0.0001, periodicity));
+      return 10 * Math.log10(r / (1 - r));
+    })
+  );
+
+  return {
+    contour,
+    measures: {
+      f0MeanHz: mean(f0),
+      f0StdHz: std(f0),
+      f0StdSemitones: std(semitones),
+      jitter: localPerturbation(periods, MAX_PERIOD_FACTOR),
+      shimmer: localPerturbation(amplitudes, MAX_AMPLITUDE_FACTOR),
+      hnrDb,
+    },
+  };
+}
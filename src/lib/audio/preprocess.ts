@@ -0,0 +1,186 @@
+import {
+  fftSize,
+  hannWindow,
+  inverseSpectrum,
+  powerSpectrum,
+  spectrum,
+  windowEnergy,
+} from '@/lib/audio/fft';
+import { applyBiquad, highPass } from '@/lib/audio/filters';
+import { peak } from '@/lib/audio/level';
+import { integratedLoudness } from '@/lib/audio/loudness';
+import { detectSpeech, VAD_FRAME_SECONDS } from '@/lib/audio/vad';
+
+// Removes rumble and handling noise while keeping the lowest voices' fundamental
+const HIGH_PASS_HZ = 50;
+// Noise-reduction frames are the power of two nearest this length, in seconds, at 50% overlap
+const NOISE_FRAME_SECONDS = 0.032;
+// Noise is over-subtracted by this factor, and no bin is cut by more than the
+// floor, which trades a little residual noise for far less "musical" warbling
+const OVER_SUBTRACTION = 2;
+const GAIN_FLOOR = 0.1;
+// Leading silence shorter than this gives too noisy a profile, in seconds
+const MIN_NOISE_SECONDS = 0.25;
+// Normalisation never pushes peaks above this
+const MAX_PEAK = 0.99;
+
+export interface PreprocessingOptions {
+  removeDc: boolean;
+  highPass: boolean;
+  noiseReduction: boolean;
+  normalizeLoudness: boolean;
+  targetLufs: number;
+}
+
+export const DEFAULT_PREPROCESSING: PreprocessingOptions = {
+  removeDc: true,
+  highPass: true,
+  noiseReduction: true,
+  normalizeLoudness: true,
+  // EBU R128 programme loudness
+  targetLufs: -23,
+};
+
+// Average spectrum of background noise, independent of frame length and
+// sample rate so a profile taken at one rate applies at another
+export interface NoiseProfile {
+  // Spacing of `density`, in Hz
+  binHz: number;
+  // Power spectral density per bin, in full-scale units squared per Hz
+  density: Float32Array;
+}
+
+export type NoiseProfileSource = 'calibration' | 'leading-silence';
+
+// What preprocessing did to a sample
+export interface PreprocessingReport {
+  // Null when noise reduction was off or no profile was available
+  noiseProfile: NoiseProfileSource | null;
+  // Integrated loudness before and after normalisation; null if not measured
+  inputLufs: number | null;
+  outputLufs: number | null;
+}
+
+// Mean noise density over equal-length blocks of background noise
+export function measureNoiseProfile(blocks: Float32Array[], sampleRate: number): NoiseProfile | null {
+  if (blocks.length === 0) return null;
+  const length = blocks[0].length;
+  const size = fftSize(length);
+  const density = new Float32Array(size / 2 + 1);
+  const scale = 1 / (blocks.length * windowEnergy(length) * sampleRate);
+  for (const block of blocks) {
+    const power = powerSpectrum(block, size);
+    for (let k = 0; k < density.length; k++) density[k] += power[k] * scale;
+  }
+  return { binHz: sampleRate / size, density };
+}
+
+// Noise density at `hz`, interpolated between profile bins
+function densityAt({ binHz, density }: NoiseProfile, hz: number): number {
+  const position = Math.min(density.length - 1, hz / binHz);
+  const below = Math.floor(position);
+  const above = Math.min(density.length - 1, below + 1);
+  return density[below] + (density[above] - density[below]) * (position - below);
+}
+
+// Profile from the silence before the speaker starts, or null if there is too little
+function leadingSilenceProfile(samples: Float32Array, sampleRate: number, frameLength: number) {
+  const firstSpeech = detectSpeech(samples, sampleRate).indexOf(true);
+  const silentSamples =
+    firstSpeech < 0 ? samples.length : Math.round(firstSpeech * VAD_FRAME_SECONDS * sampleRate);
+  if (silentSamples < MIN_NOISE_SECONDS * sampleRate) return null;
+  const blocks: Float32Array[] = [];
+  for (let start = 0; start + frameLength <= silentSamples; start += frameLength / 2) {
+    blocks.push(samples.subarray(start, start + frameLength));
+  }
+  return measureNoiseProfile(blocks, sampleRate);
+}
+
+// Spectral subtraction over overlapping Hann frames. The overlap-added output
+// is divided by the summed window, so unit gain everywhere returns the input
+function subtractNoise(
+  samples: Float32Array,
+  sampleRate: number,
+  profile: NoiseProfile,
+  frameLength: number
+): Float32Array {
+  const hop = frameLength / 2;
+  const binHz = sampleRate / frameLength;
+  const scale = windowEnergy(frameLength) * sampleRate;
+  const noisePower = Array.from(
+    { length: frameLength / 2 + 1 },
+    (_, k) => OVER_SUBTRACTION * densityAt(profile, k * binHz) * scale
+  );
+  const minGain = GAIN_FLOOR * GAIN_FLOOR;
+
+  const window = hannWindow(frameLength);
+  const output = new Float32Array(samples.length);
+  const weight = new Float32Array(samples.length);
+  const frame = new Float32Array(frameLength);
+  for (let start = 0; start < samples.length; start += hop) {
+    frame.fill(0);
+    frame.set(samples.subarray(start, start + frameLength));
+    const { real, imag } = spectrum(frame);
+    for (let k = 0; k <= frameLength / 2; k++) {
+      const power = real[k] * real[k] + imag[k] * imag[k];
+      const gain = power > 0 ? Math.sqrt(Math.max(minGain, 1 - noisePower[k] / power)) : 0;
+      real[k] *= gain;
+      imag[k] *= gain;
+      // The mirrored bin keeps the spectrum conjugate-symmetric, so the inverse stays real
+      if (k > 0 && k < frameLength / 2) {
+        real[frameLength - k] *= gain;
+        imag[frameLength - k] *= gain;
+      }
+    }
+    const restored = inverseSpectrum(real, imag);
+    for (let i = 0; i < frameLength && start + i < samples.length; i++) {
+      output[start + i] += restored[i];
+      weight[start + i] += window[i];
+    }
+  }
+  // Where the window is near zero (the very first sample) the input is the best estimate
+  for (let i = 0; i < output.length; i++) {
+    output[i] = weight[i] > 1e-3 ? output[i] / weight[i] : samples[i];
+  }
+  return output;
+}
+
+// Cleans up a mono signal before feature extraction: DC offset, low-frequency
+// rumble, steady background noise and level differences between recordings.
+// Noise is profiled from `calibrationNoise` if given, else from leading silence
+export function preprocess(
+  samples: Float32Array,
+  sampleRate: number,
+  options: PreprocessingOptions,
+  calibrationNoise: NoiseProfile | null = null
+): { samples: Float32Array; report: PreprocessingReport } {
+  let output = samples;
+  const report: PreprocessingReport = { noiseProfile: null, inputLufs: null, outputLufs: null };
+
+  if (options.removeDc && output.length > 0) {
+    const offset = output.reduce((sum, value) => sum + value, 0) / output.length;
+    output = output.map((value) => value - offset);
+  }
+  if (options.highPass) output = applyBiquad(output, highPass(HIGH_PASS_HZ, sampleRate));
+
+  if (options.noiseReduction) {
+    const frameLength = fftSize(Math.round(NOISE_FRAME_SECONDS * sampleRate));
+    const profile = calibrationNoise ?? leadingSilenceProfile(output, sampleRate, frameLength);
+    if (profile) {
+      output = subtractNoise(output, sampleRate, profile, frameLength);
+      report.noiseProfile = calibrationNoise ? 'calibration' : 'leading-silence';
+    }
+  }
+
+  if (options.normalizeLoudness) {
+    report.inputLufs = integratedLoudness(output, sampleRate);
+    if (report.inputLufs !== null) {
+      const maxGain = MAX_PEAK / Math.max(peak(output), 1e-9);
+      const gain = Math.min(10 ** ((options.targetLufs - report.inputLufs) / 20), maxGain);
+      output = output.map((value) => value * gain);
+      report.outputLufs = report.inputLufs + 20 * Math.log10(gain);
+    }
+  }
+
+  return { samples: output, report };
+}
@@ -0,0 +1,99 @@
+import { NARROWBAND_HZ } from '@/lib/audio/quality';
+
+export interface FrequencyBand {
+  lowHz: number;
+  highHz: number;
+}
+
+// Typical and clearly atypical values of a measure; see scoreBetween
+export type Norm = [typical: number, atypical: number];
+
+export type AcousticProfileName = 'wideband' | 'telephone';
+
+export interface AcousticProfile {
+  name: AcousticProfileName;
+  // Band spectral features are restricted to; unset leaves each feature its
+  // own wideband range
+  band?: FrequencyBand;
+  norms: {
+    syllableContrastDb: Norm;
+    pausesPerMinute: Norm;
+    rateVariation: Norm;
+    f0StdSemitones: Norm;
+    jitterPercent: Norm;
+    shimmerPercent: Norm;
+    hnrDb: Norm;
+    meanPauseSeconds: Norm;
+    longPauseShare: Norm;
+    phonationRatio: Norm;
+    // Syllables per second of speech; healthy adults manage four to five
+    articulationRate: Norm;
+  };
+  // Weight of each biomarker in the overall score
+  weights: {
+    phonemeArticulation: number;
+    pauseFrequency: number;
+    speechRateConsistency: number;
+    prosodicVariation: number;
+    voiceTremor: number;
+    wordFindingDelay: number;
+  };
+}
+
+// Any file natively at or below this rate is telephone audio, in Hz
+const TELEPHONE_SAMPLE_RATE = 8000;
+
+// Conversational adult speech recorded on a wideband microphone
+export const WIDEBAND_PROFILE: AcousticProfile = {
+  name: 'wideband',
+  norms: {
+    syllableContrastDb: [15, 5],
+    pausesPerMinute: [12, 35],
+    rateVariation: [0.15, 0.6],
+    f0StdSemitones: [3.5, 1],
+    jitterPercent: [0.5, 2],
+    shimmerPercent: [3, 10],
+    hnrDb: [20, 7],
+    meanPauseSeconds: [0.5, 2],
+    longPauseShare: [0, 0.3],
+    phonationRatio: [0.8, 0.5],
+    articulationRate: [4.5, 2.5],
+  },
+  weights: {
+    phonemeArticulation: 0.15,
+    pauseFrequency: 0.12,
+    speechRateConsistency: 0.1,
+    prosodicVariation: 0.12,
+    voiceTremor: 0.1,
+    wordFindingDelay: 0.1,
+  },
+};
+
+// Narrowband telephone speech. Codecs add cycle-to-cycle perturbation and noise,
+// and line AGC flattens level contrasts, so those norms are relaxed and the
+// biomarkers built on them weigh less. Timing survives the phone line intact
+export const TELEPHONE_PROFILE: AcousticProfile = {
+  name: 'telephone',
+  band: { lowHz: 300, highHz: 3400 },
+  norms: {
+    ...WIDEBAND_PROFILE.norms,
+    syllableContrastDb: [12, 4],
+    jitterPercent: [0.8, 2.5],
+    shimmerPercent: [5, 13],
+    hnrDb: [15, 5],
+  },
+  weights: {
+    ...WIDEBAND_PROFILE.weights,
+    phonemeArticulation: 0.1,
+    voiceTremor: 0.05,
+  },
+};
+
+// Telephone audio either arrives at a telephone sample rate or, converted to a
+// wideband format somewhere along the way, still carries nothing above the phone band
+export function selectProfile(sourceSampleRate: number | null, bandwidthHz: number): AcousticProfile {
+  const narrowband =
+    (sourceSampleRate !== null && sourceSampleRate <= TELEPHONE_SAMPLE_RATE) ||
+    bandwidthHz < NARROWBAND_HZ;
+  return narrowband ? TELEPHONE_PROFILE : WIDEBAND_PROFILE;
+}
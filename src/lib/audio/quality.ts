@@ -0,0 +1,239 @@
+import { CLIPPING_RATIO, SNR_DB } from '@/lib/audio/calibration';
+import { powerSpectrum } from '@/lib/audio/fft';
+import { extractFrames, type FrameTrack } from '@/lib/audio/features';
+import { CLIP_THRESHOLD, peak } from '@/lib/audio/level';
+import { median, percentile } from '@/lib/audio/stats';
+import { MIN_SPEECH_SECONDS } from '@/lib/audio/vad';
+
+// Estimated reverberation time above which words smear into each other, in seconds
+const REVERB_SECONDS = { block: 2, warn: 0.8 };
+// Signal dropouts per minute of recording
+const DROPOUTS_PER_MINUTE = { block: 10, warn: 0 };
+// Less speech than `warn` still scores, but with wide error bars
+const SPEECH_SECONDS = { block: MIN_SPEECH_SECONDS, warn: 15 };
+// Audio band-limited below this, in Hz, has most likely passed through a phone line
+export const NARROWBAND_HZ = 4000;
+
+// Spectrum bins within this many dB of the strongest one count towards bandwidth
+const BANDWIDTH_RANGE_DB = 50;
+// Below this, mains hum and rumble would dominate the bandwidth peak, in Hz
+const BANDWIDTH_FLOOR_HZ = 100;
+// Speech offsets are followed for at most this long when measuring decay, in seconds
+const DECAY_WINDOW_SECONDS = 0.5;
+const DECAY_HOP_SECONDS = 0.01;
+// A decay is only fitted over at least this many dB, and needs this many offsets
+const MIN_DECAY_DB = 10;
+const MIN_DECAYS = 3;
+// Digital silence inside speech, at least this long, counts as a dropout
+const DROPOUT_LEVEL = 1e-6;
+const MIN_DROPOUT_SECONDS = 0.01;
+
+export type QualityIssue = 'noisy' | 'clipping' | 'reverberant' | 'short' | 'dropouts' | 'narrowband';
+
+export interface QualityReport {
+  snrDb: number;
+  // Share of speech frames with a clipped peak, 0–1
+  clippingRatio: number;
+  // Blind RT60 estimate from the decay after speech offsets; null with too few offsets
+  reverbSeconds: number | null;
+  // Highest frequency carrying speech energy, in Hz
+  bandwidthHz: number;
+  speechSeconds: number;
+  dropouts: number;
+  // Overall quality, 0 (unusable) to 1 (studio-like)
+  score: number;
+  issues: QualityIssue[];
+  // `block` means the sample is refused rather than scored
+  verdict: 'ok' | 'warn' | 'block';
+}
+
+// 0 at `worst`, 1 at `best` and linear between; works whichever way round they are
+const ramp = (value: number, worst: number, best: number) =>
+  Math.min(1, Math.max(0, (value - worst) / (best - worst)));
+
+// Least-squares slope of `values` sampled every `step`
+function slope(values: number[], step: number): number {
+  const n = values.length;
+  const meanX = ((n - 1) / 2) * step;
+  const meanY = values.reduce((a, b) => a + b, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, i) => {
+    covariance += (i * step - meanX) * (value - meanY);
+    variance += (i * step - meanX) ** 2;
+  });
+  return covariance / variance;
+}
+
+// Level in dB of each short hop, for following decays more finely than VAD frames allow
+function hopLevels(samples: Float32Array, hop: number): number[] {
+  const levels: number[] = [];
+  for (let start = 0; start + hop <= samples.length; start += hop) {
+    let sum = 0;
+    for (let i = start; i < start + hop; i++) sum += samples[i] * samples[i];
+    levels.push(10 * Math.log10(sum / hop + 1e-12));
+  }
+  return levels;
+}
+
+// Reverberation time from how fast the level falls once each stretch of speech
+// ends. Articulation also takes time to stop, so this errs long in dry rooms.
+// Reverb tails fill short pauses, so the floor is the quietest tenth of frames
+// rather than the median of silence
+function estimateReverb(
+  samples: Float32Array,
+  sampleRate: number,
+  { frameSeconds, energyDb, speech }: FrameTrack
+): number | null {
+  const floorDb = percentile(energyDb, 10);
+  const hop = Math.round(DECAY_HOP_SECONDS * sampleRate);
+  const levels = hopLevels(samples, hop);
+  const hopsPerFrame = frameSeconds / DECAY_HOP_SECONDS;
+  const decayRates: number[] = [];
+
+  for (let index = 1; index < speech.length; index++) {
+    if (!speech[index - 1] || speech[index]) continue;
+    // Start from the loudest hop of the last speech frame
+    const frameStart = Math.round((index - 1) * hopsPerFrame);
+    let start = frameStart;
+    for (let i = frameStart; i < frameStart + hopsPerFrame && i < levels.length; i++) {
+      if (levels[i] > levels[start]) start = i;
+    }
+    const decay: number[] = [];
+    const end = Math.min(levels.length, start + DECAY_WINDOW_SECONDS / DECAY_HOP_SECONDS);
+    // Include the first hop at the floor, so an abrupt stop still yields a slope
+    for (let i = start; i < end; i++) {
+      decay.push(levels[i]);
+      if (levels[i] <= floorDb + MIN_DECAY_DB / 2) break;
+    }
+    if (decay.length < 2 || decay[0] - decay[decay.length - 1] < MIN_DECAY_DB) continue;
+    const rate = -slope(decay, DECAY_HOP_SECONDS);
+    if (rate > 0) decayRates.push(rate);
+  }
+  return decayRates.length >= MIN_DECAYS ? 60 / median(decayRates) : null;
+}
+
+// Highest frequency at which the long-term speech spectrum is still within
+// BANDWIDTH_RANGE_DB of its peak
+function estimateBandwidth(
+  samples: Float32Array,
+  sampleRate: number,
+  speech: boolean[],
+  frameLength: number
+): number {
+  let spectrum: Float32Array | null = null;
+  for (let index = 0; index < speech.length; index++) {
+    if (!speech[index]) continue;
+    const power = powerSpectrum(samples.subarray(index * frameLength, (index + 1) * frameLength));
+    spectrum ??= new Float32Array(power.length);
+    for (let k = 0; k < power.length; k++) spectrum[k] += power[k];
+  }
+  if (!spectrum) return 0;
+
+  const binHz = sampleRate / (2 * (spectrum.length - 1));
+  const from = Math.ceil(BANDWIDTH_FLOOR_HZ / binHz);
+  let strongest = 0;
+  for (let k = from; k < spectrum.length; k++) strongest = Math.max(strongest, spectrum[k]);
+  const threshold = strongest * 10 ** (-BANDWIDTH_RANGE_DB / 10);
+  let highest = from;
+  for (let k = from; k < spectrum.length; k++) if (spectrum[k] >= threshold) highest = k;
+  return highest * binHz;
+}
+
+// Runs of digital silence between the first and last speech, where a real
+// microphone always picks up some noise
+function countDropouts(samples: Float32Array, sampleRate: number, from: number, to: number): number {
+  const minLength = MIN_DROPOUT_SECONDS * sampleRate;
+  let dropouts = 0;
+  let run = 0;
+  for (let i = from; i < to; i++) {
+    if (Math.abs(samples[i]) <= DROPOUT_LEVEL) {
+      run++;
+    } else {
+      if (run >= minLength) dropouts++;
+      run = 0;
+    }
+  }
+  return dropouts;
+}
+
+// Measures how well a raw mono recording supports acoustic analysis, before
+// any cleanup, and whether it is good enough to score at all
+export function assessQuality(samples: Float32Array, sampleRate: number): QualityReport {
+  const frames = extractFrames(samples, sampleRate);
+  const { frameSeconds, energyDb, speech } = frames;
+  const frameLength = Math.round(frameSeconds * sampleRate);
+  const speechLevels = energyDb.filter((_, index) => speech[index]);
+  const silenceLevels = energyDb.filter((_, index) => !speech[index]);
+
+  // As in calibration: the median of silence is the noise floor and the 90th
+  // percentile of speech its voiced peaks. Without any silence, fall back to
+  // the quietest tenth of frames
+  const noiseFloorDb = silenceLevels.length
+    ? median(silenceLevels)
+    : percentile(energyDb, 10);
+  const snrDb = speechLevels.length ? percentile(speechLevels, 90) - noiseFloorDb : 0;
+
+  const clippedFrames = speech.filter(
+    (isSpeech, index) =>
+      isSpeech && peak(samples.subarray(index * frameLength, (index + 1) * frameLength)) >= CLIP_THRESHOLD
+  ).length;
+  const clippingRatio = speechLevels.length ? clippedFrames / speechLevels.length : 0;
+
+  const reverbSeconds = estimateReverb(samples, sampleRate, frames);
+  const bandwidthHz = estimateBandwidth(samples, sampleRate, speech, frameLength);
+  const speechSeconds = speechLevels.length * frameSeconds;
+
+  const firstSpeech = speech.indexOf(true);
+  const lastSpeech = speech.lastIndexOf(true);
+  const dropouts =
+    firstSpeech < 0
+      ? 0
+      : countDropouts(samples, sampleRate, firstSpeech * frameLength, (lastSpeech + 1) * frameLength);
+  const minutes = samples.length / sampleRate / 60;
+  const dropoutsPerMinute = minutes > 0 ? dropouts / minutes : 0;
+
+  const blocking: QualityIssue[] = [];
+  const warnings: QualityIssue[] = [];
+  const check = (issue: QualityIssue, block: boolean, warn: boolean) => {
+    if (block) blocking.push(issue);
+    else if (warn) warnings.push(issue);
+  };
+  check('noisy', snrDb < SNR_DB.block, snrDb < SNR_DB.warn);
+  check('clipping', clippingRatio >= CLIPPING_RATIO.block, clippingRatio >= CLIPPING_RATIO.warn);
+  check(
+    'reverberant',
+    reverbSeconds !== null && reverbSeconds > REVERB_SECONDS.block,
+    reverbSeconds !== null && reverbSeconds > REVERB_SECONDS.warn
+  );
+  check('short', speechSeconds < SPEECH_SECONDS.block, speechSeconds < SPEECH_SECONDS.warn);
+  check(
+    'dropouts',
+    dropoutsPerMinute > DROPOUTS_PER_MINUTE.block,
+    dropoutsPerMinute > DROPOUTS_PER_MINUTE.warn
+  );
+  // Without speech there is no spectrum to judge the bandwidth from
+  check('narrowband', false, speechLevels.length > 0 && bandwidthHz < NARROWBAND_HZ);
+
+  // Each measure scores 0 at its blocking threshold and 1 where it stops mattering
+  const components = [
+    ramp(snrDb, SNR_DB.block, 30),
+    ramp(clippingRatio, CLIPPING_RATIO.block, 0),
+    reverbSeconds === null ? 1 : ramp(reverbSeconds, REVERB_SECONDS.block, 0.4),
+    ramp(speechSeconds, SPEECH_SECONDS.block, 30),
+    ramp(dropoutsPerMinute, DROPOUTS_PER_MINUTE.block, 0),
+    speechLevels.length ? ramp(bandwidthHz, 3000, 6000) : 1,
+  ];
+
+  return {
+    snrDb,
+    clippingRatio,
+    reverbSeconds,
+    bandwidthHz,
+    speechSeconds,
+    dropouts,
+    score: components.reduce((a, b) => a + b, 0) / components.length,
+    issues: [...blocking, ...warnings],
+    verdict: blocking.length ? 'block' : warnings.length ? 'warn' : 'ok',
+  };
+}
@@ -0,0 +1,151 @@
+import { assertRecordingSupported, RecordingError, toRecordingError } from '@/lib/audio/errors';
+
+// A stretch of uninterrupted capture, in seconds on the recording's timeline
+export interface RecordingSegment {
+  start: number;
+  end: number;
+}
+
+export interface Recording {
+  blob: Blob;
+  mimeType: string;
+  // Captured length in seconds, excluding time spent paused
+  duration: number;
+  // Paused time is cut from the audio, so each join between segments marks an
+  // operator pause rather than silence from the speaker
+  segments: RecordingSegment[];
+}
+
+export interface RecorderSession {
+  // Live microphone stream, e.g. for level metering
+  stream: MediaStream;
+  pause: () => void;
+  resume: () => void;
+  // Finishes the recording, releases the microphone and resolves with the audio
+  stop: () => Promise<Recording>;
+  // Discards the recording and releases the microphone
+  cancel: () => void;
+}
+
+// Segments falling within [start, end) seconds, re-based so `start` becomes 0
+export function trimSegments(
+  segments: RecordingSegment[],
+  start: number,
+  end: number
+): RecordingSegment[] {
+  return segments
+    .map((segment) => ({
+      start: Math.max(segment.start, start) - start,
+      end: Math.min(segment.end, end) - start,
+    }))
+    .filter((segment) => segment.end > segment.start);
+}
+
+// Container/codec combinations in order of preference; browsers support different subsets
+const MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/mp4', 'audio/webm'];
+
+// Emit a chunk every second so a crash mid-recording loses little audio
+const TIMESLICE_MS = 1000;
+
+function pickMimeType(): string {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+// Opens the microphone with browser speech processing disabled. Rejects with
+// a RecordingError describing why it could not be opened
+export async function openMicrophone(
+  constraints: MediaTrackConstraints = {}
+): Promise<MediaStream> {
+  assertRecordingSupported();
+  try {
+    // Browser speech processing alters exactly the acoustics we measure
+    return await navigator.mediaDevices.getUserMedia({
+      audio: {
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        ...constraints,
+      },
+    });
+  } catch (error) {
+    throw toRecordingError(error);
+  }
+}
+
+// Rejects with a RecordingError describing why capture could not start
+export async function startRecorder(
+  constraints: MediaTrackConstraints = {}
+): Promise<RecorderSession> {
+  const stream = await openMicrophone(constraints);
+  const releaseMicrophone = () => stream.getTracks().forEach((track) => track.stop());
+
+  let recorder: MediaRecorder;
+  try {
+    const mimeType = pickMimeType();
+    recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  } catch (error) {
+    releaseMicrophone();
+    throw new RecordingError('unsupported', error);
+  }
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  // Active recording time, so pauses are not counted in the duration
+  let activeMs = 0;
+  let activeSince = performance.now();
+  // Active time at which each resumed segment begins
+  const segmentStarts = [0];
+  recorder.start(TIMESLICE_MS);
+
+  return {
+    stream,
+    pause: () => {
+      if (recorder.state !== 'recording') return;
+      recorder.pause();
+      activeMs += performance.now() - activeSince;
+    },
+    resume: () => {
+      if (recorder.state !== 'paused') return;
+      recorder.resume();
+      activeSince = performance.now();
+      segmentStarts.push(activeMs / 1000);
+    },
+    stop: () =>
+      new Promise<Recording>((resolve, reject) => {
+        if (recorder.state === 'recording') activeMs += performance.now() - activeSince;
+        const finish = () => {
+          releaseMicrophone();
+          const mimeType = recorder.mimeType || chunks[0]?.type || '';
+          const duration = activeMs / 1000;
+          resolve({
+            blob: new Blob(chunks, { type: mimeType }),
+            mimeType,
+            duration,
+            segments: segmentStarts.map((start, index) => ({
+              start,
+              end: segmentStarts[index + 1] ?? duration,
+            })),
+          });
+        };
+        recorder.onerror = (event) => {
+          releaseMicrophone();
+          reject(toRecordingError((event as ErrorEvent).error));
+        };
+        if (recorder.state === 'inactive') {
+          finish();
+        } else {
+          recorder.onstop = finish;
+          recorder.stop();
+        }
+      }),
+    cancel: () => {
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      releaseMicrophone();
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import { powerSpectrum } from '@/lib/audio/fft';
+import type { FrequencyBand } from '@/lib/audio/profiles';
+
+// Mel filterbank layout used for MFCCs and loudness
+const MEL_BANDS = 26;
+const MEL_LOW_HZ = 20;
+export const MFCC_COUNT = 4;
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular filters as [firstBin, weights], cached per spectrum length, rate and band
+const filterbanks = new Map<string, { first: number; weights: number[] }[]>();
+
+function melFilterbank(bins: number, sampleRate: number, band: FrequencyBand) {
+  const key = `${bins}|${sampleRate}|${band.lowHz}|${band.highHz}`;
+  let bank = filterbanks.get(key);
+  if (bank) return bank;
+  const binHz = sampleRate / (2 * (bins - 1));
+  const low = hzToMel(band.lowHz);
+  const high = hzToMel(band.highHz);
+  const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+    melToHz(low + ((high - low) * i) / (MEL_BANDS + 1)) / binHz
+  );
+  bank = Array.from({ length: MEL_BANDS }, (_, band) => {
+    const [left, centre, right] = [edges[band], edges[band + 1], edges[band + 2]];
+    const first = Math.ceil(left);
+    const weights: number[] = [];
+    for (let bin = first; bin <= Math.floor(right) && bin < bins; bin++) {
+      weights.push(bin <= centre ? (bin - left) / (centre - left) : (right - bin) / (right - centre));
+    }
+    return { first, weights };
+  });
+  filterbanks.set(key, bank);
+  return bank;
+}
+
+export interface SpectralFrame {
+  // Cepstral coefficients 1 to MFCC_COUNT; c0 duplicates loudness and is left out
+  mfcc: number[];
+  // Power-weighted mean frequency, in Hz
+  centroidHz: number;
+  // Change in the normalised spectrum since the previous frame; 0 for the first
+  flux: number;
+  // Regression slope of the dB spectrum over 0-500 Hz and 500-1500 Hz, in dB/Hz
+  slopeLow: number;
+  slopeHigh: number;
+  // Perceived loudness estimate: band energies compressed by Stevens' power law
+  loudness: number;
+}
+
+// Least-squares slope of dB power against frequency over a band
+function bandSlope(power: Float32Array, binHz: number, fromHz: number, toHz: number): number {
+  const from = Math.max(0, Math.round(fromHz / binHz));
+  const to = Math.min(power.length - 1, Math.round(toHz / binHz));
+  let n = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  for (let k = from; k <= to; k++) {
+    const x = k * binHz;
+    const y = 10 * Math.log10(power[k] + 1e-12);
+    n++;
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+  }
+  const denominator = n * sumXX - sumX * sumX;
+  return denominator === 0 ? 0 : (n * sumXY - sumX * sumY) / denominator;
+}
+
+// Spectral descriptors of one frame. `previous` is the preceding frame's
+// power spectrum, for flux. With a `band`, everything is measured inside it
+// and the low slope starts at its lower edge
+export function analyzeSpectrum(
+  frame: Float32Array,
+  sampleRate: number,
+  previous: Float32Array | null,
+  band: FrequencyBand = { lowHz: MEL_LOW_HZ, highHz: sampleRate / 2 }
+): { descriptors: SpectralFrame; power: Float32Array } {
+  const power = powerSpectrum(frame);
+  const binHz = sampleRate / (2 * (power.length - 1));
+  const from = Math.max(0, Math.round(band.lowHz / binHz));
+  const to = Math.min(power.length - 1, Math.round(band.highHz / binHz));
+
+  let total = 0;
+  let weighted = 0;
+  for (let k = from; k <= to; k++) {
+    total += power[k];
+    weighted += power[k] * k * binHz;
+  }
+
+  let flux = 0;
+  if (previous) {
+    let previousTotal = 0;
+    for (let k = from; k <= to; k++) previousTotal += previous[k];
+    for (let k = from; k <= to; k++) {
+      const delta = power[k] / (total || 1) - previous[k] / (previousTotal || 1);
+      flux += delta * delta;
+    }
+  }
+
+  const bands = melFilterbank(power.length, sampleRate, band).map(({ first, weights }) =>
+    weights.reduce((energy, weight, i) => energy + weight * power[first + i], 0)
+  );
+  const logBands = bands.map((energy) => Math.log(energy + 1e-12));
+  // DCT-II of the log mel energies
+  const mfcc = Array.from({ length: MFCC_COUNT }, (_, i) => {
+    const n = i + 1;
+    return logBands.reduce(
+      (acc, value, band) => acc + value * Math.cos((Math.PI * n * (band + 0.5)) / MEL_BANDS),
+      0
+    );
+  });
+
+  return {
+    power,
+    descriptors: {
+      mfcc,
+      centroidHz: total > 0 ? weighted / total : 0,
+      flux,
+      slopeLow: bandSlope(power, binHz, band.lowHz > MEL_LOW_HZ ? band.lowHz : 0, 500),
+      slopeHigh: bandSlope(power, binHz, 500, 1500),
+      loudness: bands.reduce((sum, energy) => sum + energy ** 0.3, 0),
+    },
+  };
+}
@@ -0,0 +1,33 @@
+// Summary statistics over plain arrays of measurements
+
+export const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export const mean = (values: number[]) => sum(values) / values.length;
+
+// Population standard deviation
+export const std = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((value) => (value - average) ** 2)));
+};
+
+export const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Linear-interpolated percentile, `p` from 0 to 100
+export function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = ((sorted.length - 1) * p) / 100;
+  const below = Math.floor(position);
+  const above = Math.min(sorted.length - 1, below + 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+}
+
+// Offset of the vertex of the parabola through three equally spaced points,
+// relative to the middle one; refines a sampled peak or dip to sub-sample accuracy
+export function parabolicOffset(before: number, at: number, after: number): number {
+  const curvature = before - 2 * at + after;
+  return curvature === 0 ? 0 : (before - after) / (2 * curvature);
+}
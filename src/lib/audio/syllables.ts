@@ -0,0 +1,152 @@
+import { rms, toDecibels } from '@/lib/audio/level';
+import type { FrameTrack } from '@/lib/audio/features';
+import type { PitchFrame } from '@/lib/audio/pitch';
+import { mean, median, std } from '@/lib/audio/stats';
+
+// Intensity contour resolution, in seconds; syllables last 100-300 ms
+const HOP_SECONDS = 0.01;
+const WINDOW_SECONDS = 0.04;
+// Peaks this far below the loudest part of the recording are background, in dB
+const SILENCE_BELOW_PEAK_DB = 25;
+// Neighbouring peaks need a dip at least this deep between them to be separate syllables
+const MIN_DIP_DB = 2;
+// Peaks further apart than this are not neighbouring syllables, in seconds
+const MAX_NEIGHBOUR_SECONDS = 0.4;
+// Rate variability is measured across windows of this length, in seconds...
+const RATE_WINDOW_SECONDS = 5;
+// ...that hold at least this much speech
+const MIN_WINDOW_SPEECH_SECONDS = 1;
+
+export interface SyllableNucleus {
+  // Seconds from the start of the sample
+  time: number;
+  // Depth of the dip separating it from the previous nucleus, in dB; null for
+  // the first nucleus of a stretch of speech, which has no neighbour to dip from
+  prominenceDb: number | null;
+}
+
+export interface SpeechRateMeasures {
+  syllables: number;
+  // Syllables per second over the whole sample, pauses included
+  speechRate: number;
+  // Syllables per second of phonation, pauses excluded
+  articulationRate: number;
+  // Coefficient of variation of the articulation rate across windows; null for short samples
+  rateVariation: number | null;
+  // Mean dip depth between syllables, in dB; sharper articulation gives deeper dips
+  syllableContrastDb: number | null;
+}
+
+// Short-time intensity in dB, one value per hop
+export function intensityContour(samples: Float32Array, sampleRate: number): number[] {
+  const hop = Math.round(HOP_SECONDS * sampleRate);
+  const window = Math.round(WINDOW_SECONDS * sampleRate);
+  const contour: number[] = [];
+  for (let start = 0; start + window <= samples.length; start += hop) {
+    contour.push(Math.max(-100, toDecibels(rms(samples.subarray(start, start + window)))));
+  }
+  return contour;
+}
+
+// Centre of the analysis window of an intensity hop, in seconds
+const hopTime = (index: number) => index * HOP_SECONDS + WINDOW_SECONDS / 2;
+
+// Syllable nuclei as intensity peaks within speech that stand out from the
+// background, are separated by a clear dip, and are voiced. After de Jong &
+// Wempe (2009). Dips are only looked for between neighbouring peaks of one
+// stretch of speech, so pauses do not count as syllable contrast
+export function findSyllableNuclei(
+  intensity: number[],
+  isSpeechAt: (time: number) => boolean,
+  isVoicedAt: (time: number) => boolean
+): SyllableNucleus[] {
+  if (intensity.length < 3) return [];
+  const loud = [...intensity].sort((a, b) => a - b)[Math.floor(intensity.length * 0.99)];
+  const threshold = Math.max(median(intensity), loud - SILENCE_BELOW_PEAK_DB);
+  const inSpeech = intensity.map((_, index) => isSpeechAt(hopTime(index)));
+  const maxGap = Math.round(MAX_NEIGHBOUR_SECONDS / HOP_SECONDS);
+
+  const peaks: number[] = [];
+  for (let i = 1; i < intensity.length - 1; i++) {
+    if (
+      inSpeech[i] &&
+      intensity[i] >= threshold &&
+      intensity[i] > intensity[i - 1] &&
+      intensity[i] >= intensity[i + 1]
+    ) {
+      peaks.push(i);
+    }
+  }
+
+  // Merge peaks without a clear dip between them, keeping the louder. Each
+  // nucleus remembers the lowest point since its neighbour, if it has one
+  const nuclei: { index: number; dipBefore: number | null }[] = [];
+  let previous: (typeof nuclei)[number] | null = null;
+  for (const index of peaks) {
+    let dip = Infinity;
+    if (previous && index - previous.index <= maxGap) {
+      for (let i = previous.index; i <= index && dip > -Infinity; i++) {
+        dip = inSpeech[i] ? Math.min(dip, intensity[i]) : -Infinity;
+      }
+    }
+    if (!previous || dip === -Infinity || dip === Infinity) {
+      // A new stretch of speech, or too far from the last peak to compare
+      previous = { index, dipBefore: null };
+      nuclei.push(previous);
+    } else if (Math.min(intensity[previous.index], intensity[index]) - dip >= MIN_DIP_DB) {
+      previous = { index, dipBefore: dip };
+      nuclei.push(previous);
+    } else if (intensity[index] > intensity[previous.index]) {
+      previous.index = index;
+    }
+  }
+
+  return nuclei
+    .map(({ index, dipBefore }) => ({
+      time: hopTime(index),
+      prominenceDb: dipBefore === null ? null : intensity[index] - dipBefore,
+    }))
+    .filter(({ time }) => isVoicedAt(time));
+}
+
+// Speech and articulation rate from syllable nuclei, using the pitch contour
+// to reject unvoiced peaks and the speech track for phonation time
+export function measureSpeechRate(
+  samples: Float32Array,
+  sampleRate: number,
+  track: FrameTrack,
+  contour: (PitchFrame | null)[]
+): SpeechRateMeasures {
+  const { frameSeconds, speech } = track;
+  const frameAt = (time: number) => Math.floor(time / frameSeconds);
+  const nuclei = findSyllableNuclei(
+    intensityContour(samples, sampleRate),
+    (time) => Boolean(speech[frameAt(time)]),
+    (time) => Boolean(contour[frameAt(time)])
+  );
+  const contrasts = nuclei
+    .map(({ prominenceDb }) => prominenceDb)
+    .filter((prominence): prominence is number => prominence !== null);
+
+  const duration = samples.length / sampleRate;
+  const phonationSeconds = speech.filter(Boolean).length * frameSeconds;
+
+  // Local articulation rate in each window with enough speech to measure it
+  const windowRates: number[] = [];
+  for (let from = 0; from < duration; from += RATE_WINDOW_SECONDS) {
+    const to = from + RATE_WINDOW_SECONDS;
+    const windowSpeech =
+      speech.slice(frameAt(from), frameAt(to)).filter(Boolean).length * frameSeconds;
+    if (windowSpeech < MIN_WINDOW_SPEECH_SECONDS) continue;
+    windowRates.push(nuclei.filter(({ time }) => time >= from && time < to).length / windowSpeech);
+  }
+  const rateMean = windowRates.length ? mean(windowRates) : 0;
+
+  return {
+    syllables: nuclei.length,
+    speechRate: duration > 0 ? nuclei.length / duration : 0,
+    articulationRate: phonationSeconds > 0 ? nuclei.length / phonationSeconds : 0,
+    rateVariation: windowRates.length >= 2 && rateMean > 0 ? std(windowRates) / rateMean : null,
+    syllableContrastDb: contrasts.length ? mean(contrasts) : null,
+  };
+}
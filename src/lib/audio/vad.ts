@@ -0,0 +1,115 @@
+import { powerSpectrum } from '@/lib/audio/fft';
+import { rms, toDecibels } from '@/lib/audio/level';
+import type { FrequencyBand } from '@/lib/audio/profiles';
+
+// Analysis frame length for voice activity decisions, in seconds
+export const VAD_FRAME_SECONDS = 0.03;
+
+// Recordings with less voiced speech than this are not scored
+export const MIN_SPEECH_SECONDS = 5;
+
+// Frames must be this far above the estimated noise floor to count as speech
+const SPEECH_MARGIN_DB = 12;
+// ...and never quieter than this, so a silent room does not make hiss look like speech
+const MIN_SPEECH_DB = -55;
+const SILENCE_DB = -100;
+
+// Spectral flatness is measured over the band carrying most speech energy, in Hz
+const FLATNESS_BAND: FrequencyBand = { lowHz: 100, highHz: 4000 };
+// Frames flatter than this are noise-like, unless they are also well above the threshold
+const MAX_SPEECH_FLATNESS = 0.5;
+const LOUD_MARGIN_DB = 10;
+// Silences shorter than this inside speech are bridged, in seconds...
+const MIN_GAP_SECONDS = 0.1;
+// ...and bursts of speech shorter than this are dropped as clicks
+const MIN_SPEECH_BURST_SECONDS = 0.06;
+
+// Level of one frame in dBFS, floored so digital silence still sorts as a number
+export function frameLevel(frame: Float32Array): number {
+  return Math.max(SILENCE_DB, toDecibels(rms(frame)));
+}
+
+// Level of each VAD frame in dBFS
+export function frameLevels(samples: Float32Array, sampleRate: number): number[] {
+  const frameLength = Math.max(1, Math.round(VAD_FRAME_SECONDS * sampleRate));
+  const levels: number[] = [];
+  for (let start = 0; start + frameLength <= samples.length; start += frameLength) {
+    levels.push(frameLevel(samples.subarray(start, start + frameLength)));
+  }
+  return levels;
+}
+
+// Adaptive speech threshold: the quietest tenth of frames approximates the
+// noise floor, since even continuous speech leaves gaps between words
+export function speechThreshold(levelsDb: number[]): number {
+  if (levelsDb.length === 0) return MIN_SPEECH_DB;
+  const sorted = [...levelsDb].sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  return Math.max(MIN_SPEECH_DB, noiseFloor + SPEECH_MARGIN_DB);
+}
+
+// Seconds of voiced speech in a mono signal
+export function voicedDuration(samples: Float32Array, sampleRate: number): number {
+  const levels = frameLevels(samples, sampleRate);
+  const threshold = speechThreshold(levels);
+  return levels.filter((level) => level >= threshold).length * VAD_FRAME_SECONDS;
+}
+
+// Geometric over arithmetic mean of the power spectrum within the speech band:
+// near 0 for harmonic sounds, near 1 for white noise
+export function spectralFlatness(
+  frame: Float32Array,
+  sampleRate: number,
+  band: FrequencyBand = FLATNESS_BAND
+): number {
+  const power = powerSpectrum(frame);
+  const binHz = sampleRate / (2 * (power.length - 1));
+  const from = Math.max(1, Math.round(band.lowHz / binHz));
+  const to = Math.min(power.length - 1, Math.round(band.highHz / binHz));
+  let logSum = 0;
+  let linearSum = 0;
+  for (let k = from; k <= to; k++) {
+    const value = power[k] + 1e-12;
+    logSum += Math.log(value);
+    linearSum += value;
+  }
+  const bins = to - from + 1;
+  return Math.exp(logSum / bins) / (linearSum / bins);
+}
+
+// Sets runs of `value` shorter than `minFrames` to the opposite value
+function dropShortRuns(flags: boolean[], value: boolean, minFrames: number, keepEdges: boolean) {
+  let runStart = 0;
+  for (let index = 0; index <= flags.length; index++) {
+    if (index < flags.length && flags[index] === value) continue;
+    const touchesEdge = runStart === 0 || index === flags.length;
+    if (index - runStart < minFrames && !(keepEdges && touchesEdge)) {
+      for (let i = runStart; i < index; i++) flags[i] = !value;
+    }
+    runStart = index + 1;
+  }
+}
+
+// Speech/silence decision per VAD frame for a whole recording. Combines the
+// adaptive energy threshold with spectral flatness, so steady noise that is
+// loud enough to pass the threshold is still not taken for speech. Flatness is
+// judged within `band` where the audio is band-limited
+export function detectSpeech(
+  samples: Float32Array,
+  sampleRate: number,
+  band?: FrequencyBand
+): boolean[] {
+  const frameLength = Math.max(1, Math.round(VAD_FRAME_SECONDS * sampleRate));
+  const levels = frameLevels(samples, sampleRate);
+  const threshold = speechThreshold(levels);
+  const speech = levels.map((level, index) => {
+    if (level < threshold) return false;
+    if (level >= threshold + LOUD_MARGIN_DB) return true;
+    const frame = samples.subarray(index * frameLength, (index + 1) * frameLength);
+    return spectralFlatness(frame, sampleRate, band) <= MAX_SPEECH_FLATNESS;
+  });
+  // Leading and trailing silence are not gaps, so leave them alone
+  dropShortRuns(speech, false, Math.round(MIN_GAP_SECONDS / VAD_FRAME_SECONDS), true);
+  dropShortRuns(speech, true, Math.round(MIN_SPEECH_BURST_SECONDS / VAD_FRAME_SECONDS), false);
+  return speech;
+}
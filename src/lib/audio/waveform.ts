@@ -0,0 +1,24 @@
+export interface WaveformColumn {
+  min: number;
+  max: number;
+}
+
+// Reduces mono samples to one min/max pair per display column. Decoding has
+// already mixed the channels, so a quiet one does not hide speech on the other
+export function computeWaveform(samples: Float32Array, columns: number): WaveformColumn[] {
+  const perColumn = Math.max(1, Math.floor(samples.length / columns));
+  const waveform: WaveformColumn[] = [];
+
+  for (let column = 0; column < columns; column++) {
+    const from = column * perColumn;
+    const to = Math.min(samples.length, from + perColumn);
+    let min = 0;
+    let max = 0;
+    for (let i = from; i < to; i++) {
+      if (samples[i] < min) min = samples[i];
+      if (samples[i] > max) max = samples[i];
+    }
+    waveform.push({ min, max });
+  }
+  return waveform;
+}
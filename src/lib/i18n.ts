@@ -1 +1,190 @@
-{"code":"rate-limited","message":"You have hit the rate limit. Please <a class=\"__boltUpgradePlan__\">Upgrade</a> to keep chatting, or you can continue coding for free in the editor.","providerLimitHit":false,"isRetryable":true}
\ No newline at end of file
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { formatMessage, type MessageParams } from '@/lib/icu';
+import en from '@/lib/locales/en';
+
+// Accented, expanded copy of English for spotting truncation and hard-coded text
+export const pseudoLanguage = 'en-XA';
+
+// Language codes mapped to their native display names
+export const languages = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+  pt: 'Português',
+  zh: '中文',
+  ar: 'العربية',
+  he: 'עברית',
+  ur: 'اردو',
+  [pseudoLanguage]: '[Ƥşḗŭḓǿ]',
+} as const;
+
+export type Language = keyof typeof languages;
+
+// Languages offered to the user; the pseudo-locale only exists in dev builds
+export const availableLanguages = (Object.keys(languages) as Language[]).filter(
+  (code) => import.meta.env.DEV || code !== pseudoLanguage
+);
+
+// Keys are derived from the English catalog so an unknown key fails type-checking
+export type TranslationKey = keyof typeof en;
+
+// Locale catalogs may be partial; missing keys fall back to English
+export type Catalog = Partial<Record<TranslationKey, string>>;
+
+// English ships in the main bundle as the fallback; every other catalog is
+// split into its own chunk and fetched the first time it is selected
+const catalogLoaders: Record<Language, () => Promise<{ default: Catalog }>> = {
+  en: () => Promise.resolve({ default: en }),
+  es: () => import('@/lib/locales/es'),
+  fr: () => import('@/lib/locales/fr'),
+  de: () => import('@/lib/locales/de'),
+  pt: () => import('@/lib/locales/pt'),
+  zh: () => import('@/lib/locales/zh'),
+  ar: () => import('@/lib/locales/ar'),
+  he: () => import('@/lib/locales/he'),
+  ur: () => import('@/lib/locales/ur'),
+  [pseudoLanguage]: () =>
+    import('@/lib/pseudo').then(({ pseudolocalizeCatalog }) => ({
+      default: pseudolocalizeCatalog(en),
+    })),
+};
+
+export const defaultLanguage: Language = 'en';
+
+// Languages written right-to-left; drives the document `dir` attribute
+const rtlLanguages: readonly Language[] = ['ar', 'he', 'ur'];
+
+export function isLanguage(code: unknown): code is Language {
+  return typeof code === 'string' && availableLanguages.includes(code as Language);
+}
+
+export function getDirection(language: Language): 'ltr' | 'rtl' {
+  return rtlLanguages.includes(language) ? 'rtl' : 'ltr';
+}
+
+// Pick the first browser locale we have a catalog for, falling back from
+// a regional tag (e.g. pt-BR) to its base language (pt)
+export function detectLanguage(
+  preferred: readonly string[] = typeof navigator === 'undefined'
+    ? []
+    : navigator.languages ?? [navigator.language]
+): Language {
+  for (const tag of preferred) {
+    const code = tag.toLowerCase();
+    if (isLanguage(code)) return code;
+    const base = code.split('-')[0];
+    if (isLanguage(base)) return base;
+  }
+  return defaultLanguage;
+}
+
+function applyDocumentLanguage(language: Language) {
+  if (typeof document === 'undefined') return;
+  document.documentElement.lang = language;
+  document.documentElement.dir = getDirection(language);
+}
+
+interface I18nState {
+  language: Language;
+  // Language whose catalog is being fetched; the current one stays active meanwhile
+  loadingLanguage: Language | null;
+  catalogs: Partial<Record<Language, Catalog>>;
+  setLanguage: (language: Language) => Promise<void>;
+  // Messages use ICU-style placeholders; see `formatMessage` in lib/icu
+  t: (key: TranslationKey, params?: MessageParams) => string;
+}
+
+export const useI18nStore = create<I18nState>()(
+  persist(
+    (set, get) => ({
+      language: detectLanguage(),
+      loadingLanguage: null,
+      catalogs: { en },
+      setLanguage: async (language) => {
+        if (get().catalogs[language]) {
+          set({ language, loadingLanguage: null });
+          return;
+        }
+
+        set({ loadingLanguage: language });
+        try {
+          const { default: catalog } = await catalogLoaders[language]();
+          set((state) => ({ catalogs: { ...state.catalogs, [language]: catalog } }));
+          // A newer selection made while this one was loading takes precedence
+          if (get().loadingLanguage === language) set({ language, loadingLanguage: null });
+        } catch (error) {
+          console.error(`Failed to load translations for "${language}"`, error);
+          if (get().loadingLanguage === language) set({ loadingLanguage: null });
+        }
+      },
+      t: (key, params) => {
+        if (import.meta.env.DEV) trackKeyUsage(key);
+        const { language, catalogs } = get();
+        const message = catalogs[language]?.[key] ?? en[key];
+        return params ? formatMessage(message, params, language) : message;
+      },
+    }),
+    {
+      name: 'i18n-language',
+      partialize: (state) => ({ language: state.language }),
+      // Ignore a stored code we no longer ship a catalog for
+      merge: (persisted, current) => {
+        const language = (persisted as Partial<I18nState> | undefined)?.language;
+        return isLanguage(language) ? { ...current, language } : current;
+      },
+    }
+  )
+);
+
+// Dev-only report of keys rendered through t() that the active locale is
+// missing or still has in English
+const usedKeys = new Set<TranslationKey>();
+let reportTimer: ReturnType<typeof setTimeout> | undefined;
+
+function trackKeyUsage(key: TranslationKey) {
+  if (usedKeys.has(key)) return;
+  usedKeys.add(key);
+  scheduleMissingKeyReport();
+}
+
+function scheduleMissingKeyReport() {
+  clearTimeout(reportTimer);
+  reportTimer = setTimeout(logMissingKeyReport, 1000);
+}
+
+export function getMissingKeyReport(language: Language) {
+  const catalog = useI18nStore.getState().catalogs[language] ?? {};
+  const keys = [...usedKeys].sort();
+  return {
+    missing: keys.filter((key) => catalog[key] === undefined),
+    untranslated: keys.filter((key) => catalog[key] === en[key]),
+  };
+}
+
+function logMissingKeyReport() {
+  const { language, catalogs } = useI18nStore.getState();
+  if (language === defaultLanguage || !catalogs[language]) return;
+
+  const { missing, untranslated } = getMissingKeyReport(language);
+  if (missing.length === 0 && untranslated.length === 0) return;
+
+  console.groupCollapsed(
+    `[i18n] ${language}: ${missing.length} missing, ${untranslated.length} identical to English`
+  );
+  if (missing.length > 0) console.warn('Missing keys:', missing);
+  if (untranslated.length > 0) console.info('Identical to English:', untranslated);
+  console.groupEnd();
+}
+
+applyDocumentLanguage(useI18nStore.getState().language);
+useI18nStore.subscribe((state, prev) => {
+  if (state.language !== prev.language) applyDocumentLanguage(state.language);
+  const activeCatalogChanged =
+    state.language !== prev.language || state.catalogs !== prev.catalogs;
+  if (import.meta.env.DEV && activeCatalogChanged) scheduleMissingKeyReport();
+});
+
+// The persisted or detected language may not have its catalog loaded yet
+useI18nStore.getState().setLanguage(useI18nStore.getState().language);
@@ -0,0 +1,171 @@
+// Minimal ICU MessageFormat subset used by the translation catalogs:
+//   {name}                          plain value (numbers are locale-formatted)
+//   {name, number}                  locale number
+//   {name, number, percent}         fraction rendered as a percentage (0.15 -> 15%)
+//   {name, number, integer}         number rounded to a whole value
+//   {name, duration}                seconds rendered with localized units
+//   {name, plural, one {...} other {...}}   `#` is replaced by the count; `=N` matches exactly
+//   {name, select, a {...} other {...}}
+
+export type MessageParams = Record<string, string | number>;
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+function getNumberFormat(locale: string, options: Intl.NumberFormatOptions = {}) {
+  const cacheKey = `${locale}|${JSON.stringify(options)}`;
+  let format = numberFormats.get(cacheKey);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(cacheKey, format);
+  }
+  return format;
+}
+
+function getPluralRules(locale: string) {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules;
+}
+
+export function formatNumber(value: number, locale: string, style = ''): string {
+  switch (style) {
+    case 'percent':
+      return getNumberFormat(locale, { style: 'percent', maximumFractionDigits: 1 }).format(value);
+    case 'integer':
+      return getNumberFormat(locale, { maximumFractionDigits: 0 }).format(value);
+    default:
+      return getNumberFormat(locale).format(value);
+  }
+}
+
+export function formatDuration(seconds: number, locale: string): string {
+  const unit = (name: 'minute' | 'second') =>
+    getNumberFormat(locale, { style: 'unit', unit: name, unitDisplay: 'narrow' });
+  const whole = Math.max(0, Math.round(seconds));
+  if (whole < 60) return unit('second').format(whole);
+
+  const minutes = Math.floor(whole / 60);
+  const rest = whole % 60;
+  return rest === 0
+    ? unit('minute').format(minutes)
+    : `${unit('minute').format(minutes)} ${unit('second').format(rest)}`;
+}
+
+// Index of the brace closing the one opened at `start`, or -1 if unbalanced
+function findClosingBrace(message: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < message.length; i++) {
+    if (message[i] === '{') depth++;
+    else if (message[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// Parses `key {branch} key {branch}` into a lookup table
+function parseBranches(body: string): Record<string, string> {
+  const branches: Record<string, string> = {};
+  let i = 0;
+  while (i < body.length) {
+    const open = body.indexOf('{', i);
+    if (open === -1) break;
+    const close = findClosingBrace(body, open);
+    if (close === -1) break;
+    branches[body.slice(i, open).trim()] = body.slice(open + 1, close);
+    i = close + 1;
+  }
+  return branches;
+}
+
+function formatArgument(argument: string, params: MessageParams, locale: string): string {
+  const firstComma = argument.indexOf(',');
+  const name = (firstComma === -1 ? argument : argument.slice(0, firstComma)).trim();
+  const value = params[name];
+  // Leave unknown placeholders visible so they are easy to spot in the UI
+  if (value === undefined) return `{${argument}}`;
+  if (firstComma === -1) return typeof value === 'number' ? formatNumber(value, locale) : value;
+
+  const secondComma = argument.indexOf(',', firstComma + 1);
+  const type = argument.slice(firstComma + 1, secondComma === -1 ? undefined : secondComma).trim();
+  const style = secondComma === -1 ? '' : argument.slice(secondComma + 1).trim();
+
+  switch (type) {
+    case 'number':
+      return formatNumber(Number(value), locale, style);
+    case 'duration':
+      return formatDuration(Number(value), locale);
+    case 'plural': {
+      const count = Number(value);
+      const branches = parseBranches(style);
+      const branch =
+        branches[`=${count}`] ?? branches[getPluralRules(locale).select(count)] ?? branches.other ?? '';
+      return formatMessage(branch.replace(/#/g, formatNumber(count, locale)), params, locale);
+    }
+    case 'select': {
+      const branches = parseBranches(style);
+      return formatMessage(branches[String(value)] ?? branches.other ?? '', params, locale);
+    }
+    default:
+      return String(value);
+  }
+}
+
+// Applies `transform` to the literal text of a message, including the text
+// inside plural/select branches, while leaving placeholder syntax untouched
+export function mapMessageText(message: string, transform: (text: string) => string): string {
+  let result = '';
+  let i = 0;
+  while (i < message.length) {
+    const open = message.indexOf('{', i);
+    const close = open === -1 ? -1 : findClosingBrace(message, open);
+    if (close === -1) {
+      result += transform(message.slice(i));
+      break;
+    }
+    const argument = mapArgumentText(message.slice(open + 1, close), transform);
+    result += `${transform(message.slice(i, open))}{${argument}}`;
+    i = close + 1;
+  }
+  return result;
+}
+
+function mapArgumentText(argument: string, transform: (text: string) => string): string {
+  const firstComma = argument.indexOf(',');
+  const secondComma = firstComma === -1 ? -1 : argument.indexOf(',', firstComma + 1);
+  const type = argument.slice(firstComma + 1, secondComma).trim();
+  if (secondComma === -1 || (type !== 'plural' && type !== 'select')) return argument;
+
+  let result = argument.slice(0, secondComma + 1);
+  const body = argument.slice(secondComma + 1);
+  let i = 0;
+  while (i < body.length) {
+    const open = body.indexOf('{', i);
+    const close = open === -1 ? -1 : findClosingBrace(body, open);
+    if (close === -1) {
+      result += body.slice(i);
+      break;
+    }
+    result += body.slice(i, open + 1) + mapMessageText(body.slice(open + 1, close), transform) + '}';
+    i = close + 1;
+  }
+  return result;
+}
+
+export function formatMessage(message: string, params: MessageParams, locale: string): string {
+  let result = '';
+  let i = 0;
+  while (i < message.length) {
+    const open = message.indexOf('{', i);
+    const close = open === -1 ? -1 : findClosingBrace(message, open);
+    if (close === -1) {
+      result += message.slice(i);
+      break;
+    }
+    result += message.slice(i, open) + formatArgument(message.slice(open + 1, close), params, locale);
+    i = close + 1;
+  }
+  return result;
+}
@@ -0,0 +1,279 @@
+import type { Catalog } from '@/lib/i18n';
+
+const ar: Catalog = {
+  appName: 'فحص الزهايمر بالصوت',
+  appTagline: 'الكشف المبكر عن مرض الزهايمر من خلال تحليل الصوت',
+  appDescription:
+    'سجّل عينة كلام قصيرة أو ارفعها، وسيبحث تحليلنا عن المؤشرات الحيوية الصوتية واللغوية المرتبطة بالتدهور المعرفي.',
+  language: 'اللغة',
+  noLanguageFound: 'لم يتم العثور على لغة.',
+  error: 'خطأ',
+  emptyRecording: 'التسجيل فارغ. يرجى المحاولة مرة أخرى.',
+  uploadEmpty: 'الملف المحدد لا يحتوي على صوت.',
+  uploadUnsupportedFormat:
+    'نوع الملف هذا غير مدعوم. يرجى اختيار ملف WAV أو MP3 أو M4A/AAC أو OGG/Opus أو WebM أو FLAC.',
+  uploadCorrupt: 'تعذّر فك ترميز الملف. قد يكون تالفًا أو غير مكتمل؛ حاول تصديره مجددًا.',
+  uploadTooLong: 'التسجيل طويل جدًا. يرجى رفع {max, duration} من الصوت كحد أقصى.',
+  uploadTooLittleSpeech:
+    'يحتوي الملف على كلام قليل جدًا لا يكفي للتحليل (يلزم {required, duration} على الأقل).',
+  analysisFailed: 'تعذّر إكمال التحليل. يرجى المحاولة مرة أخرى.',
+  qualityTooLow: 'جودة التسجيل منخفضة جدًا بحيث لا يمكن تحليله بشكل موثوق.',
+  notEnoughSpeech:
+    'لم يُكتشف كلام كافٍ للتحليل (تم العثور على {detected, duration}، والمطلوب {required, duration} على الأقل). يرجى إعادة التسجيل ومواصلة الكلام لفترة أطول.',
+  micPermissionDeniedTitle: 'تم حظر الوصول إلى الميكروفون',
+  micPermissionDeniedHelp:
+    'انقر على رمز القفل أو الميكروفون في شريط العنوان، واسمح لهذا الموقع بالوصول إلى الميكروفون، ثم أعد المحاولة. إذا أغلقت الطلب، فأعد تحميل الصفحة لإظهاره مجددًا.',
+  micNotFoundTitle: 'لم يتم العثور على ميكروفون',
+  micNotFoundHelp:
+    'قم بتوصيل ميكروفون أو سماعة رأس، وتأكد من تفعيله في إعدادات الصوت بالنظام، ثم أعد المحاولة.',
+  micBusyTitle: 'الميكروفون قيد الاستخدام',
+  micBusyHelp:
+    'أغلق التطبيقات أو علامات التبويب الأخرى التي قد تستخدم الميكروفون (مكالمات الفيديو، الإملاء)، ثم أعد المحاولة.',
+  insecureContextTitle: 'يتطلب التسجيل اتصالًا آمنًا',
+  insecureContextHelp:
+    'لا تسمح المتصفحات بالوصول إلى الميكروفون إلا عبر HTTPS. افتح هذه الصفحة باستخدام عنوان https:// أو ارفع تسجيلًا بدلًا من ذلك.',
+  recordingUnsupportedTitle: 'هذا المتصفح لا يدعم تسجيل الصوت',
+  recordingUnsupportedHelp:
+    'استخدم إصدارًا حديثًا من Chrome أو Edge أو Firefox أو Safari، أو ارفع تسجيلًا موجودًا بدلًا من ذلك.',
+  recordingFailedTitle: 'فشل التسجيل',
+  recordingFailedHelp:
+    'حدث خطأ أثناء الوصول إلى الميكروفون. أعد المحاولة أو ارفع تسجيلًا بدلًا من ذلك.',
+  retry: 'إعادة المحاولة',
+  useFileUpload: 'رفع ملف بدلًا من ذلك',
+  dismiss: 'إغلاق',
+
+  // Recording
+  voiceRecording: 'التسجيل الصوتي',
+  recordingInstructions:
+    'تحدّث بشكل طبيعي عن يومك، أو صِف صورة، أو احكِ قصة قصيرة. حاول أن تتحدث دون انقطاع طوال مدة التسجيل.',
+  recordingDuration: 'مدة التسجيل:',
+  microphone: 'الميكروفون:',
+  systemDefaultMicrophone: 'الافتراضي للنظام',
+  microphoneNumber: 'الميكروفون {index}',
+  testMicrophone: 'اختبار الميكروفون',
+  stopMicrophoneTest: 'إيقاف الاختبار',
+  inputLevel: 'مستوى إدخال الميكروفون',
+  durationOption:
+    '{seconds, plural, zero {# ثانية} one {ثانية واحدة} two {ثانيتان} few {# ثوانٍ} many {# ثانية} other {# ثانية}}',
+  maxRecordingDuration: 'المدة القصوى:',
+  autoStopOnSilence: 'إيقاف تلقائي',
+  silenceLength: 'مدة الصمت قبل الإيقاف',
+  silenceOption:
+    'بعد {seconds, plural, one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} many {# ثانية} other {# ثانية}} من الصمت',
+  speechCaptured: 'الكلام المسجَّل: {voiced, duration} من {required, duration}',
+  waitingForSilence:
+    'تم تسجيل كلام كافٍ. سيتوقف التسجيل بعد {seconds, plural, one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} many {# ثانية} other {# ثانية}} من الصمت.',
+  startRecording: 'بدء التسجيل',
+  stopRecording: 'إيقاف التسجيل ({elapsed, duration} / {total, duration})',
+  recordingInProgress: 'جارٍ التسجيل...',
+  recordingPaused: 'التسجيل متوقف مؤقتًا',
+  pauseRecording: 'إيقاف مؤقت',
+  resumeRecording: 'استئناف',
+  recordingSegment: 'المقطع {segment}',
+  requestingMicrophone: 'في انتظار إذن الميكروفون...',
+  finalizingRecording: 'جارٍ إنهاء التسجيل...',
+
+  // Calibration
+  calibrationTitle: 'فحص البيئة (اختياري)',
+  calibrationDescription:
+    'قِس ضوضاء الخلفية ومستوى الميكروفون قبل التسجيل لاكتشاف الظروف غير الموثوقة مبكرًا.',
+  runCalibration: 'فحص البيئة',
+  rerunCalibration: 'الفحص مجددًا',
+  cancel: 'إلغاء',
+  calibrationStaySilent:
+    'يرجى التزام الصمت لمدة {seconds, plural, one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} many {# ثانية} other {# ثانية}}…',
+  calibrationSayPhrase: 'اطلب الآن من المريض قراءة هذه الجملة بصوت عالٍ:',
+  calibrationPhrase: 'أشرقت الشمس على القرية الهادئة وبدأت الطيور بالغناء.',
+  calibrationPassed: 'ظروف التسجيل جيدة.',
+  calibrationWarningTitle: 'يمكن تحسين ظروف التسجيل',
+  calibrationBlockedTitle: 'ظروف التسجيل غير مناسبة',
+  calibrationBlockedHelp: 'أصلح المشكلات أعلاه وأعد الفحص قبل التسجيل.',
+  calibrationNoSpeech:
+    'لم يُكتشف أي كلام أثناء جملة الاختبار. تأكد من اختيار الميكروفون الصحيح وأن المريض قريب منه.',
+  calibrationNoisy:
+    'الخلفية صاخبة جدًا. أطفئ المراوح أو أجهزة التلفاز أو مصادر الضوضاء الأخرى، وأغلق الأبواب والنوافذ، أو انتقل إلى غرفة أهدأ.',
+  calibrationClipping:
+    'الصوت مشوَّه. أبعد الميكروفون عن المريض أو اخفض مستوى الإدخال في إعدادات الصوت بالنظام.',
+  calibrationTooQuiet:
+    'الصوت منخفض جدًا. قرّب الميكروفون من المريض أو ارفع مستوى الإدخال في إعدادات الصوت بالنظام.',
+  calibrationMetrics:
+    'ضوضاء الخلفية {noise, number, integer} dBFS · الكلام {speech, number, integer} dBFS · نسبة الإشارة إلى الضوضاء {snr, number, integer} dB · التشبع {clipping, number, percent}',
+  noiseReducedCalibration:
+    'تم تقليل الضوضاء الخلفية باستخدام ضوضاء الغرفة المقيسة أثناء فحص البيئة.',
+  noiseReducedSilence: 'تم تقليل الضوضاء الخلفية باستخدام الصمت الذي سبق بدء الكلام.',
+  loudnessNormalized:
+    'تم توحيد مستوى الصوت من {from, number, integer} إلى {to, number, integer} LUFS.',
+
+  // Upload
+  audioUpload: 'رفع ملف صوتي',
+  uploadInstructions:
+    'ارفع تسجيلًا صوتيًا موجودًا (WAV أو MP3 أو M4A/AAC أو OGG/Opus أو WebM أو FLAC).',
+  uploadButton: 'اختر ملفًا صوتيًا',
+  dropZoneHint: 'اسحب ملفًا صوتيًا أو أكثر وأفلته هنا. تُحلَّل الملفات المتعددة واحدًا تلو الآخر.',
+  uploadQueue: 'قائمة انتظار الرفع',
+  queueFile: 'الملف',
+  queueStatus: 'الحالة',
+  queueProgress: 'التقدم',
+  queueProgressLabel: 'تقدم {name}',
+  queueResult: 'النتيجة',
+  queueActions: 'الإجراءات',
+  queueResultSummary:
+    'الدرجة {score}، الخطر {risk, select, High {مرتفع} Moderate {متوسط} other {منخفض}}',
+  uploadQueued: 'في الانتظار',
+  uploadDecoding: 'جارٍ قراءة الملف',
+  uploadAnalyzing: 'جارٍ التحليل',
+  uploadDone: 'اكتمل',
+  uploadFailed: 'فشل',
+  uploadCancelled: 'أُلغي',
+  viewResult: 'عرض النتيجة',
+  removeFile: 'إزالة',
+  fileUploaded: 'تم رفع الملف: {name}',
+  decodingAudio: 'جارٍ قراءة الملف الصوتي...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, one {أحادي} =2 {ستيريو} other {# قنوات}}',
+  sampleRateValue: '{rate, number} كيلوهرتز',
+  unknownValue: 'معدل عينات غير معروف',
+
+  // Review
+  reviewRecording: 'مراجعة التسجيل',
+  reviewUpload: 'مراجعة الصوت المرفوع',
+  reviewInstructions:
+    'استمع قبل التحليل. اسحب المقابض لقص الصمت أو كلام المشغّل في البداية والنهاية.',
+  trimStart: 'بداية القص',
+  trimEnd: 'نهاية القص',
+  trimRange: 'الاحتفاظ بـ {start, number} ث – {end, number} ث ({length, number} ث)',
+  playSelection: 'تشغيل التحديد',
+  analyzeRecording: 'تحليل',
+  reRecord: 'إعادة التسجيل',
+  chooseAnotherFile: 'اختيار ملف آخر',
+  preprocessingTitle: 'تنقية الصوت',
+  preprocessingDescription:
+    'تُطبَّق قبل التحليل حتى لا تؤثر الضوضاء الخلفية ومستوى التسجيل في القياسات.',
+  removeDcOffset: 'إزالة إزاحة التيار المستمر',
+  highPassFilter: 'ترشيح الهدير المنخفض',
+  noiseReduction: 'تقليل الضوضاء الخلفية',
+  loudnessNormalization: 'توحيد مستوى الصوت',
+  loudnessTarget: 'مستوى الصوت المستهدف',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: 'الاستماع إلى',
+  listenOriginal: 'الأصلي',
+  listenProcessed: 'بعد التنقية',
+  preparingProcessed: 'جارٍ تجهيز الصوت بعد التنقية...',
+
+  // Results
+  analyzing: 'جارٍ تحليل العينة الصوتية...',
+  stageDecoding: 'جارٍ فك ترميز الصوت',
+  stageQuality: 'جارٍ فحص جودة التسجيل',
+  stagePreprocessing: 'جارٍ تنقية الصوت',
+  stageVoiceActivity: 'جارٍ اكتشاف الكلام',
+  stageAcoustic: 'جارٍ قياس الخصائص الصوتية',
+  stageScoring: 'جارٍ حساب الدرجة',
+  analysisResults: 'نتائج التحليل',
+  telephoneMode: 'وضع الهاتف',
+  telephoneModeDescription:
+    'تم التعرف على هذا التسجيل كصوت هاتفي ضيق النطاق. قيست الخصائص ضمن {low, number, integer}–{high, number, integer} هرتز وقورنت بمعايير الهاتف.',
+  alzheimerDetected: 'تم اكتشاف علامات لمرض الزهايمر',
+  alzheimerNotDetected: 'لم يتم اكتشاف علامات لمرض الزهايمر',
+  detectedMessage:
+    'تُظهر العينة الصوتية أنماطًا مرتبطة بالتدهور المعرفي. يرجى استشارة أخصائي رعاية صحية لإجراء تقييم شامل.',
+  notDetectedMessage: 'لا تُظهر العينة الصوتية أنماطًا واضحة مرتبطة بالتدهور المعرفي.',
+  overallScore: 'الدرجة المعرفية الإجمالية: {score, number}/100',
+  scoreInfo:
+    'مزيج مرجّح من جميع المؤشرات الحيوية الصوتية. تشير الدرجات الأعلى إلى أنماط كلام أقرب إلى الأشخاص الأصحاء.',
+  riskLevel: 'مستوى الخطر: {risk, select, High {مرتفع} Moderate {متوسط} other {منخفض}}',
+  analysisConfidence: 'موثوقية التحليل: {confidence, number, percent}',
+  environmentCheck: 'فحص البيئة: {metrics}',
+  voiceBiomarkers: 'المؤشرات الحيوية الصوتية',
+  biomarkersInfo:
+    'المؤشرات الحيوية هي خصائص قابلة للقياس في الكلام، ويساهم كل منها في الدرجة الإجمالية وفقًا لوزنه.',
+  weight: 'الوزن: {weight, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: 'نطق الأصوات',
+  phonemeArticulationDesc: 'دقة نطق الحروف الساكنة وحروف العلة',
+  pauseFrequency: 'تكرار التوقفات',
+  pauseFrequencyDesc: 'عدد المرات التي ينقطع فيها الكلام بفترات صمت',
+  lexicalDiversity: 'التنوع المعجمي',
+  lexicalDiversityDesc: 'تنوع المفردات المستخدمة',
+  speechRateConsistency: 'ثبات سرعة الكلام',
+  speechRateConsistencyDesc: 'استقرار سرعة الكلام بمرور الوقت',
+  semanticCoherenceBio: 'الترابط الدلالي',
+  semanticCoherenceBioDesc: 'الارتباط المنطقي بين الأفكار المتتالية',
+  prosodicVariation: 'التنوع النغمي',
+  prosodicVariationDesc: 'التغير الطبيعي في طبقة الصوت والتنغيم',
+  voiceTremor: 'رعشة الصوت',
+  voiceTremorDesc: 'تذبذب لا إرادي في طبقة الصوت وشدته',
+  wordFindingDelay: 'التأخر في إيجاد الكلمات',
+  wordFindingDelayDesc: 'التردد أثناء البحث عن الكلمات',
+  voiceMeasurements: 'قياسات الصوت',
+  measurePitch:
+    'طبقة الصوت: {mean, number, integer} هرتز في المتوسط، بتفاوت {std, number, integer} هرتز',
+  measureHnr: 'نسبة التوافقيات إلى الضوضاء: {value, number, integer} ديسيبل',
+  measureJitter: 'الارتعاش الترددي (Jitter): {value, number, percent}',
+  measureShimmer: 'الارتعاش الاتساعي (Shimmer): {value, number, percent}',
+  rateMeasurements: 'سرعة الكلام',
+  measureSpeechRate: 'معدل الكلام: {rate, number} مقطع في الثانية إجمالًا',
+  measureArticulationRate: 'معدل النطق: {rate, number} مقطع في كل ثانية من الكلام',
+  pauseMeasurements: 'قياسات التوقفات',
+  measurePauseCount:
+    '{count, plural, =0 {لا توقفات} one {توقف واحد} two {توقفان} few {# توقفات} many {# توقفًا} other {# توقف}}، {rate, number, integer} في الدقيقة',
+  measurePhonation: 'يتكلم {ratio, number, percent} من الوقت',
+  measurePauseLength: 'مدة التوقف: {mean, number} ث في المتوسط، والوسيط {median, number} ث',
+  measureLongPauses:
+    '{count, plural, =0 {لا توقفات طويلة} one {توقف طويل واحد} two {توقفان طويلان} few {# توقفات طويلة} many {# توقفًا طويلًا} other {# توقف طويل}} ({threshold, number} ث أو أكثر)',
+  measureOperatorPauses:
+    '{count, plural, one {صمت واحد} two {صمتان} few {# فترات صمت} many {# فترة صمت} other {# فترة صمت}} عند إيقاف التسجيل مؤقتًا، غير محتسبة',
+  pauseDistribution: 'توزيع مدد التوقفات',
+  pauseBin: '{from, number}–{to, number} ث',
+  pauseBinOpen: '{from, number} ث فأكثر',
+  recordingQuality: 'جودة التسجيل',
+  qualityScore: 'الجودة الإجمالية: {score, number, percent}',
+  qualitySnr: 'نسبة الإشارة إلى الضوضاء: {value, number, integer} dB',
+  qualityClipping: 'التشبع: {value, number, percent} من الكلام',
+  qualityReverb: 'زمن الصدى: {value, number} ث',
+  qualityBandwidth: 'عرض النطاق: {value, number, integer} هرتز',
+  qualitySpeech: 'الكلام: {value, duration}',
+  qualityDropouts:
+    '{count, plural, =0 {لا انقطاعات} one {انقطاع واحد} two {انقطاعان} few {# انقطاعات} many {# انقطاعًا} other {# انقطاع}}',
+  qualityIssueNoisy: 'الضوضاء الخلفية مرتفعة مقارنة بالصوت.',
+  qualityIssueClipping: 'الصوت مشوَّه بسبب التشبع.',
+  qualityIssueReverberant: 'الغرفة ذات صدى، مما يطمس الكلام.',
+  qualityIssueShort: 'الكلام المتاح للقياس قليل.',
+  qualityIssueDropouts: 'تنقطع الإشارة في بعض المواضع.',
+  qualityIssueNarrowband: 'عرض نطاق الصوت مماثل للهاتف، لذا تغيب تفاصيل الترددات العالية.',
+
+  // Indicators
+  speechPatternAnalysis: 'تحليل أنماط الكلام',
+  speechClarity: 'وضوح الكلام',
+  wordRecall: 'استدعاء الكلمات',
+  sentenceStructure: 'بنية الجمل',
+  pausePatterns: 'أنماط التوقف',
+  prosody: 'التنغيم',
+  articulationRate: 'معدل النطق',
+  semanticCoherence: 'الترابط الدلالي',
+  notMeasured: 'لم يُقَس في هذه العينة',
+
+  // Recommendations
+  recommendations: 'التوصيات',
+  nextSteps: 'الخطوات التالية',
+  highRiskRecommendation:
+    'نوصي بشدة بتحديد موعد مع طبيب أعصاب أو عيادة ذاكرة لإجراء تقييم معرفي شامل.',
+  moderateRiskRecommendation:
+    'يُنصح بمناقشة هذه النتائج مع طبيبك وإعادة الفحص خلال 3 إلى 6 أشهر لمتابعة أي تغيرات.',
+  lowRiskRecommendation:
+    'لا حاجة لاتخاذ أي إجراء فوري. حافظ على نمط حياة نشط وأعد الفحص مرة واحدة سنويًا.',
+
+  // Comments
+  leaveComment: 'اترك تعليقًا',
+  commentInstructions: 'شاركنا رأيك في التحليل أو أبلغ عن مشكلة.',
+  commentPlaceholder: 'اكتب تعليقك هنا...',
+  submitComment: 'إرسال التعليق',
+  commentThankYou: 'شكرًا لملاحظاتك!',
+
+  // Disclaimer
+  disclaimer: 'إخلاء المسؤولية الطبية',
+  disclaimerText:
+    'هذه الأداة مخصصة لأغراض الفحص والبحث فقط ولا تقدم تشخيصًا طبيًا. استشر دائمًا أخصائي رعاية صحية مؤهلًا.',
+};
+
+export default ar;
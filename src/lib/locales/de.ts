@@ -0,0 +1,280 @@
+import type { Catalog } from '@/lib/i18n';
+
+const de: Catalog = {
+  appName: 'Alzheimer-Stimmscreening',
+  appTagline: 'Alzheimer-Früherkennung durch Stimmanalyse',
+  appDescription:
+    'Nehmen Sie eine kurze Sprachprobe auf oder laden Sie eine hoch. Unsere Analyse sucht nach stimmlichen und sprachlichen Biomarkern, die mit kognitivem Abbau in Verbindung stehen.',
+  language: 'Sprache',
+  noLanguageFound: 'Keine Sprache gefunden.',
+  error: 'Fehler',
+  emptyRecording: 'Die Aufnahme ist leer. Bitte versuchen Sie es erneut.',
+  uploadEmpty: 'Die ausgewählte Datei enthält keinen Ton.',
+  uploadUnsupportedFormat:
+    'Dieser Dateityp wird nicht unterstützt. Bitte wählen Sie eine WAV-, MP3-, M4A/AAC-, OGG/Opus-, WebM- oder FLAC-Datei.',
+  uploadCorrupt:
+    'Die Datei konnte nicht dekodiert werden. Sie ist möglicherweise beschädigt oder unvollständig; versuchen Sie, sie erneut zu exportieren.',
+  uploadTooLong: 'Die Aufnahme ist zu lang. Bitte laden Sie höchstens {max, duration} Audio hoch.',
+  uploadTooLittleSpeech:
+    'Die Datei enthält zu wenig Sprache für eine Analyse (mindestens {required, duration} erforderlich).',
+  analysisFailed: 'Die Analyse konnte nicht abgeschlossen werden. Bitte versuchen Sie es erneut.',
+  qualityTooLow: 'Die Aufnahmequalität ist für eine zuverlässige Analyse zu gering.',
+  notEnoughSpeech:
+    'Für die Analyse wurde zu wenig Sprache erkannt ({detected, duration} gefunden, mindestens {required, duration} erforderlich). Bitte nehmen Sie erneut auf und sprechen Sie länger.',
+  micPermissionDeniedTitle: 'Der Mikrofonzugriff wurde blockiert',
+  micPermissionDeniedHelp:
+    'Klicken Sie in der Adressleiste auf das Schloss- oder Mikrofonsymbol, erlauben Sie dieser Website den Mikrofonzugriff und versuchen Sie es erneut. Wenn Sie die Abfrage geschlossen haben, laden Sie die Seite neu, um sie erneut anzuzeigen.',
+  micNotFoundTitle: 'Kein Mikrofon gefunden',
+  micNotFoundHelp:
+    'Schließen Sie ein Mikrofon oder Headset an, prüfen Sie, ob es in den Toneinstellungen des Systems aktiviert ist, und versuchen Sie es erneut.',
+  micBusyTitle: 'Das Mikrofon wird bereits verwendet',
+  micBusyHelp:
+    'Schließen Sie andere Anwendungen oder Browser-Tabs, die das Mikrofon verwenden könnten (Videoanrufe, Diktat), und versuchen Sie es erneut.',
+  insecureContextTitle: 'Für die Aufnahme ist eine sichere Verbindung erforderlich',
+  insecureContextHelp:
+    'Browser erlauben den Mikrofonzugriff nur über HTTPS. Öffnen Sie diese Seite über eine https://-Adresse oder laden Sie stattdessen eine Aufnahme hoch.',
+  recordingUnsupportedTitle: 'Dieser Browser kann keinen Ton aufnehmen',
+  recordingUnsupportedHelp:
+    'Verwenden Sie eine aktuelle Version von Chrome, Edge, Firefox oder Safari oder laden Sie stattdessen eine vorhandene Aufnahme hoch.',
+  recordingFailedTitle: 'Aufnahme fehlgeschlagen',
+  recordingFailedHelp:
+    'Beim Zugriff auf das Mikrofon ist ein Fehler aufgetreten. Versuchen Sie es erneut oder laden Sie stattdessen eine Aufnahme hoch.',
+  retry: 'Erneut versuchen',
+  useFileUpload: 'Stattdessen Datei hochladen',
+  dismiss: 'Schließen',
+
+  // Recording
+  voiceRecording: 'Sprachaufnahme',
+  recordingInstructions:
+    'Sprechen Sie ganz natürlich über Ihren Tag, beschreiben Sie ein Bild oder erzählen Sie eine kurze Geschichte. Versuchen Sie, während der gesamten Aufnahme durchgehend zu sprechen.',
+  recordingDuration: 'Aufnahmedauer:',
+  microphone: 'Mikrofon:',
+  systemDefaultMicrophone: 'Systemstandard',
+  microphoneNumber: 'Mikrofon {index}',
+  testMicrophone: 'Mikrofon testen',
+  stopMicrophoneTest: 'Test beenden',
+  inputLevel: 'Mikrofon-Eingangspegel',
+  durationOption: '{seconds, plural, one {# Sekunde} other {# Sekunden}}',
+  maxRecordingDuration: 'Maximale Dauer:',
+  autoStopOnSilence: 'Automatisch stoppen',
+  silenceLength: 'Stille vor dem Stoppen',
+  silenceOption: 'nach {seconds, plural, one {# Sekunde} other {# Sekunden}} Stille',
+  speechCaptured: 'Erfasste Sprache: {voiced, duration} von {required, duration}',
+  waitingForSilence:
+    'Genug Sprache erfasst. Die Aufnahme stoppt nach {seconds, plural, one {# Sekunde} other {# Sekunden}} Stille.',
+  startRecording: 'Aufnahme starten',
+  stopRecording: 'Aufnahme beenden ({elapsed, duration} / {total, duration})',
+  recordingInProgress: 'Aufnahme läuft...',
+  recordingPaused: 'Aufnahme pausiert',
+  pauseRecording: 'Pausieren',
+  resumeRecording: 'Fortsetzen',
+  recordingSegment: 'Abschnitt {segment}',
+  requestingMicrophone: 'Warten auf die Mikrofonfreigabe...',
+  finalizingRecording: 'Aufnahme wird abgeschlossen...',
+
+  // Calibration
+  calibrationTitle: 'Umgebungsprüfung (optional)',
+  calibrationDescription:
+    'Messen Sie vor der Aufnahme Hintergrundgeräusche und Mikrofonpegel, um ungeeignete Bedingungen früh zu erkennen.',
+  runCalibration: 'Umgebung prüfen',
+  rerunCalibration: 'Erneut prüfen',
+  cancel: 'Abbrechen',
+  calibrationStaySilent:
+    'Bitte {seconds, plural, one {# Sekunde} other {# Sekunden}} lang still sein…',
+  calibrationSayPhrase: 'Bitten Sie den Patienten nun, diesen Satz laut vorzulesen:',
+  calibrationPhrase: 'Die Sonne ging über dem stillen Dorf auf und die Vögel begannen zu singen.',
+  calibrationPassed: 'Die Aufnahmebedingungen sind gut.',
+  calibrationWarningTitle: 'Die Aufnahmebedingungen könnten besser sein',
+  calibrationBlockedTitle: 'Die Aufnahmebedingungen sind ungeeignet',
+  calibrationBlockedHelp:
+    'Beheben Sie die oben genannten Probleme und prüfen Sie erneut, bevor Sie aufnehmen.',
+  calibrationNoSpeech:
+    'Während des Beispielsatzes wurde keine Sprache erkannt. Prüfen Sie, ob das richtige Mikrofon ausgewählt ist und sich der Patient nah daran befindet.',
+  calibrationNoisy:
+    'Der Hintergrund ist zu laut. Schalten Sie Ventilatoren, Fernseher oder andere Geräuschquellen aus, schließen Sie Türen und Fenster oder wechseln Sie in einen ruhigeren Raum.',
+  calibrationClipping:
+    'Die Stimme übersteuert. Halten Sie das Mikrofon weiter vom Patienten entfernt oder senken Sie die Eingangslautstärke in den Toneinstellungen des Systems.',
+  calibrationTooQuiet:
+    'Die Stimme ist sehr leise. Bringen Sie das Mikrofon näher an den Patienten oder erhöhen Sie die Eingangslautstärke in den Toneinstellungen des Systems.',
+  calibrationMetrics:
+    'Grundrauschen {noise, number, integer} dBFS · Sprache {speech, number, integer} dBFS · SNR {snr, number, integer} dB · Übersteuerung {clipping, number, percent}',
+  noiseReducedCalibration:
+    'Hintergrundgeräusche wurden anhand des bei der Umgebungsprüfung gemessenen Raumgeräuschs reduziert.',
+  noiseReducedSilence: 'Hintergrundgeräusche wurden anhand der Stille vor Sprechbeginn reduziert.',
+  loudnessNormalized:
+    'Die Lautheit wurde von {from, number, integer} auf {to, number, integer} LUFS normalisiert.',
+
+  // Upload
+  audioUpload: 'Audio hochladen',
+  uploadInstructions:
+    'Laden Sie eine vorhandene Sprachaufnahme hoch (WAV, MP3, M4A/AAC, OGG/Opus, WebM oder FLAC).',
+  uploadButton: 'Audiodatei auswählen',
+  dropZoneHint:
+    'Ziehen Sie eine oder mehrere Audiodateien hierher. Mehrere Dateien werden nacheinander analysiert.',
+  uploadQueue: 'Upload-Warteschlange',
+  queueFile: 'Datei',
+  queueStatus: 'Status',
+  queueProgress: 'Fortschritt',
+  queueProgressLabel: 'Fortschritt für {name}',
+  queueResult: 'Ergebnis',
+  queueActions: 'Aktionen',
+  queueResultSummary:
+    'Wert {score}, Risiko {risk, select, High {hoch} Moderate {mittel} other {niedrig}}',
+  uploadQueued: 'Wartend',
+  uploadDecoding: 'Datei wird gelesen',
+  uploadAnalyzing: 'Wird analysiert',
+  uploadDone: 'Fertig',
+  uploadFailed: 'Fehlgeschlagen',
+  uploadCancelled: 'Abgebrochen',
+  viewResult: 'Ergebnis anzeigen',
+  removeFile: 'Entfernen',
+  fileUploaded: 'Hochgeladene Datei: {name}',
+  decodingAudio: 'Audiodatei wird gelesen...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, one {Mono} =2 {Stereo} other {# Kanäle}}',
+  sampleRateValue: '{rate, number} kHz',
+  unknownValue: 'unbekannte Abtastrate',
+
+  // Review
+  reviewRecording: 'Aufnahme prüfen',
+  reviewUpload: 'Hochgeladene Audiodatei prüfen',
+  reviewInstructions:
+    'Hören Sie sich die Aufnahme vor der Analyse an. Ziehen Sie die Griffe, um Stille oder Sprache des Untersuchers am Anfang und Ende zu entfernen.',
+  trimStart: 'Schnittanfang',
+  trimEnd: 'Schnittende',
+  trimRange: 'Behalten: {start, number} s – {end, number} s ({length, number} s)',
+  playSelection: 'Auswahl abspielen',
+  analyzeRecording: 'Analysieren',
+  reRecord: 'Neu aufnehmen',
+  chooseAnotherFile: 'Andere Datei wählen',
+  preprocessingTitle: 'Audiobereinigung',
+  preprocessingDescription:
+    'Wird vor der Analyse angewendet, damit Hintergrundgeräusche und Aufnahmepegel die Messungen nicht verfälschen.',
+  removeDcOffset: 'Gleichanteil entfernen',
+  highPassFilter: 'Tieffrequentes Rumpeln filtern',
+  noiseReduction: 'Hintergrundgeräusche reduzieren',
+  loudnessNormalization: 'Lautheit normalisieren',
+  loudnessTarget: 'Ziellautheit',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: 'Anhören',
+  listenOriginal: 'Original',
+  listenProcessed: 'Bereinigt',
+  preparingProcessed: 'Bereinigtes Audio wird vorbereitet...',
+
+  // Results
+  analyzing: 'Sprachprobe wird analysiert...',
+  stageDecoding: 'Audio wird dekodiert',
+  stageQuality: 'Aufnahmequalität wird geprüft',
+  stagePreprocessing: 'Audio wird bereinigt',
+  stageVoiceActivity: 'Sprache wird erkannt',
+  stageAcoustic: 'Akustische Merkmale werden gemessen',
+  stageScoring: 'Wert wird berechnet',
+  analysisResults: 'Analyseergebnisse',
+  telephoneMode: 'Telefonmodus',
+  telephoneModeDescription:
+    'Diese Aufnahme wurde als schmalbandiges Telefonaudio erkannt. Die Merkmale wurden zwischen {low, number, integer} und {high, number, integer} Hz gemessen und mit Telefonnormen verglichen.',
+  alzheimerDetected: 'Anzeichen für Alzheimer erkannt',
+  alzheimerNotDetected: 'Keine Anzeichen für Alzheimer erkannt',
+  detectedMessage:
+    'Die Sprachprobe zeigt Muster, die mit kognitivem Abbau in Verbindung stehen. Bitte wenden Sie sich für eine vollständige Untersuchung an eine medizinische Fachkraft.',
+  notDetectedMessage:
+    'Die Sprachprobe zeigt keine signifikanten Muster, die mit kognitivem Abbau in Verbindung stehen.',
+  overallScore: 'Kognitiver Gesamtwert: {score, number}/100',
+  scoreInfo:
+    'Gewichtete Kombination aller Stimmbiomarker. Höhere Werte bedeuten Sprechmuster, die denen gesunder Kontrollpersonen näherkommen.',
+  riskLevel: 'Risikostufe: {risk, select, High {hoch} Moderate {mittel} other {niedrig}}',
+  analysisConfidence: 'Zuverlässigkeit der Analyse: {confidence, number, percent}',
+  environmentCheck: 'Umgebungsprüfung: {metrics}',
+  voiceBiomarkers: 'Stimmbiomarker',
+  biomarkersInfo:
+    'Biomarker sind messbare Merkmale der Sprache. Jeder trägt entsprechend seiner Gewichtung zum Gesamtwert bei.',
+  weight: 'Gewichtung: {weight, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: 'Phonemartikulation',
+  phonemeArticulationDesc: 'Präzision bei der Bildung von Konsonanten und Vokalen',
+  pauseFrequency: 'Pausenhäufigkeit',
+  pauseFrequencyDesc: 'Wie oft der Redefluss durch stille Pausen unterbrochen wird',
+  lexicalDiversity: 'Lexikalische Vielfalt',
+  lexicalDiversityDesc: 'Vielfalt des verwendeten Wortschatzes',
+  speechRateConsistency: 'Gleichmäßigkeit des Sprechtempos',
+  speechRateConsistencyDesc: 'Stabilität des Sprechtempos im Zeitverlauf',
+  semanticCoherenceBio: 'Semantische Kohärenz',
+  semanticCoherenceBioDesc: 'Logischer Zusammenhang zwischen aufeinanderfolgenden Gedanken',
+  prosodicVariation: 'Prosodische Variation',
+  prosodicVariationDesc: 'Natürliche Variation von Tonhöhe und Intonation',
+  voiceTremor: 'Stimmtremor',
+  voiceTremorDesc: 'Unwillkürliche Schwankungen von Tonhöhe und Lautstärke',
+  wordFindingDelay: 'Wortfindungsverzögerung',
+  wordFindingDelayDesc: 'Zögern bei der Suche nach Wörtern',
+  voiceMeasurements: 'Stimmmessungen',
+  measurePitch:
+    'Tonhöhe: durchschnittlich {mean, number, integer} Hz, Schwankung {std, number, integer} Hz',
+  measureHnr: 'Harmonischen-Rausch-Verhältnis: {value, number, integer} dB',
+  measureJitter: 'Jitter: {value, number, percent}',
+  measureShimmer: 'Shimmer: {value, number, percent}',
+  rateMeasurements: 'Sprechgeschwindigkeit',
+  measureSpeechRate: 'Sprechrate: insgesamt {rate, number} Silben pro Sekunde',
+  measureArticulationRate: 'Artikulationsrate: {rate, number} Silben pro Sekunde Sprechzeit',
+  pauseMeasurements: 'Pausenmessungen',
+  measurePauseCount:
+    '{count, plural, =0 {Keine Pausen} one {# Pause} other {# Pausen}}, {rate, number, integer} pro Minute',
+  measurePhonation: 'Spricht {ratio, number, percent} der Zeit',
+  measurePauseLength: 'Pausenlänge: durchschnittlich {mean, number} s, Median {median, number} s',
+  measureLongPauses:
+    '{count, plural, =0 {Keine langen Pausen} one {# lange Pause} other {# lange Pausen}} ({threshold, number} s oder mehr)',
+  measureOperatorPauses:
+    '{count, plural, one {# Stille} other {# Stillen}} an Aufnahmepausen, nicht gezählt',
+  pauseDistribution: 'Verteilung der Pausenlängen',
+  pauseBin: '{from, number}–{to, number} s',
+  pauseBinOpen: 'ab {from, number} s',
+  recordingQuality: 'Aufnahmequalität',
+  qualityScore: 'Gesamtqualität: {score, number, percent}',
+  qualitySnr: 'Signal-Rausch-Abstand: {value, number, integer} dB',
+  qualityClipping: 'Übersteuerung: {value, number, percent} der Sprache',
+  qualityReverb: 'Nachhallzeit: {value, number} s',
+  qualityBandwidth: 'Bandbreite: {value, number, integer} Hz',
+  qualitySpeech: 'Sprache: {value, duration}',
+  qualityDropouts: '{count, plural, =0 {Keine Aussetzer} one {# Aussetzer} other {# Aussetzer}}',
+  qualityIssueNoisy: 'Die Hintergrundgeräusche sind im Verhältnis zur Stimme laut.',
+  qualityIssueClipping: 'Die Stimme ist durch Übersteuerung verzerrt.',
+  qualityIssueReverberant: 'Der Raum hallt, wodurch die Sprache verschwimmt.',
+  qualityIssueShort: 'Es gibt wenig Sprache zum Messen.',
+  qualityIssueDropouts: 'Das Signal setzt stellenweise aus.',
+  qualityIssueNarrowband: 'Das Audio hat Telefonbandbreite, daher fehlen hochfrequente Details.',
+
+  // Indicators
+  speechPatternAnalysis: 'Analyse der Sprechmuster',
+  speechClarity: 'Deutlichkeit der Sprache',
+  wordRecall: 'Wortabruf',
+  sentenceStructure: 'Satzstruktur',
+  pausePatterns: 'Pausenmuster',
+  prosody: 'Prosodie',
+  articulationRate: 'Artikulationsrate',
+  semanticCoherence: 'Semantische Kohärenz',
+  notMeasured: 'Für diese Probe nicht gemessen',
+
+  // Recommendations
+  recommendations: 'Empfehlungen',
+  nextSteps: 'Nächste Schritte',
+  highRiskRecommendation:
+    'Wir empfehlen dringend einen Termin bei einer Neurologin, einem Neurologen oder einer Gedächtnisambulanz für eine umfassende kognitive Untersuchung.',
+  moderateRiskRecommendation:
+    'Besprechen Sie diese Ergebnisse mit Ihrer Ärztin oder Ihrem Arzt und wiederholen Sie das Screening in 3 bis 6 Monaten, um Veränderungen zu verfolgen.',
+  lowRiskRecommendation:
+    'Es sind keine sofortigen Maßnahmen erforderlich. Bleiben Sie aktiv und wiederholen Sie das Screening einmal im Jahr.',
+
+  // Comments
+  leaveComment: 'Kommentar hinterlassen',
+  commentInstructions: 'Teilen Sie uns Ihre Meinung zur Analyse mit oder melden Sie ein Problem.',
+  commentPlaceholder: 'Geben Sie hier Ihren Kommentar ein...',
+  submitComment: 'Kommentar senden',
+  commentThankYou: 'Vielen Dank für Ihr Feedback!',
+
+  // Disclaimer
+  disclaimer: 'Medizinischer Hinweis',
+  disclaimerText:
+    'Dieses Werkzeug dient ausschließlich dem Screening und der Forschung und stellt keine medizinische Diagnose dar. Wenden Sie sich immer an eine qualifizierte medizinische Fachkraft.',
+};
+
+export default de;
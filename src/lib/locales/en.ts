@@ -0,0 +1,280 @@
+// Base catalog. Every other locale is checked against the keys defined here.
+const en = {
+  appName: "Alzheimer's Voice Screening",
+  appTagline: "Early Alzheimer's screening through voice analysis",
+  appDescription:
+    'Record or upload a short speech sample and our analysis will look for vocal and linguistic biomarkers associated with cognitive decline.',
+  language: 'Language',
+  noLanguageFound: 'No language found.',
+  error: 'Error',
+  emptyRecording: 'The recording is empty. Please try again.',
+  uploadEmpty: 'The selected file contains no audio.',
+  uploadUnsupportedFormat:
+    'This file type is not supported. Please choose a WAV, MP3, M4A/AAC, OGG/Opus, WebM or FLAC file.',
+  uploadCorrupt:
+    'The file could not be decoded. It may be damaged or incomplete; try exporting it again.',
+  uploadTooLong: 'The recording is too long. Please upload at most {max, duration} of audio.',
+  uploadTooLittleSpeech:
+    'The file contains too little speech to analyze (at least {required, duration} needed).',
+  analysisFailed: 'The analysis could not be completed. Please try again.',
+  qualityTooLow: 'The recording quality is too low to analyze reliably.',
+  notEnoughSpeech:
+    'Not enough speech was detected to analyze ({detected, duration} found, at least {required, duration} needed). Please re-record and keep talking for longer.',
+  micPermissionDeniedTitle: 'Microphone access was blocked',
+  micPermissionDeniedHelp:
+    'Click the lock or microphone icon in the address bar, allow microphone access for this site, then try again. If you dismissed the prompt, reloading the page will show it again.',
+  micNotFoundTitle: 'No microphone found',
+  micNotFoundHelp:
+    'Connect a microphone or headset, check that it is enabled in your system sound settings, then try again.',
+  micBusyTitle: 'The microphone is in use',
+  micBusyHelp:
+    'Close other applications or browser tabs that may be using the microphone (video calls, dictation), then try again.',
+  insecureContextTitle: 'Recording requires a secure connection',
+  insecureContextHelp:
+    'Browsers only allow microphone access over HTTPS. Open this page using an https:// address, or upload a recording instead.',
+  recordingUnsupportedTitle: 'This browser cannot record audio',
+  recordingUnsupportedHelp:
+    'Use a current version of Chrome, Edge, Firefox or Safari, or upload an existing recording instead.',
+  recordingFailedTitle: 'Recording failed',
+  recordingFailedHelp:
+    'Something went wrong while accessing the microphone. Try again, or upload a recording instead.',
+  retry: 'Try again',
+  useFileUpload: 'Upload a file instead',
+  dismiss: 'Dismiss',
+
+  // Recording
+  voiceRecording: 'Voice Recording',
+  recordingInstructions:
+    'Speak naturally about your day, describe a picture, or tell a short story. Try to talk continuously for the whole recording.',
+  recordingDuration: 'Recording duration:',
+  microphone: 'Microphone:',
+  systemDefaultMicrophone: 'System default',
+  microphoneNumber: 'Microphone {index}',
+  testMicrophone: 'Test microphone',
+  stopMicrophoneTest: 'Stop test',
+  inputLevel: 'Microphone input level',
+  durationOption: '{seconds, plural, one {# second} other {# seconds}}',
+  maxRecordingDuration: 'Maximum duration:',
+  autoStopOnSilence: 'Stop automatically',
+  silenceLength: 'Silence before stopping',
+  silenceOption: 'after {seconds, plural, one {# second} other {# seconds}} of silence',
+  speechCaptured: 'Speech captured: {voiced, duration} of {required, duration}',
+  waitingForSilence:
+    'Enough speech captured. Recording stops after {seconds, plural, one {# second} other {# seconds}} of silence.',
+  startRecording: 'Start Recording',
+  stopRecording: 'Stop Recording ({elapsed, duration} / {total, duration})',
+  recordingInProgress: 'Recording in progress...',
+  recordingPaused: 'Recording paused',
+  pauseRecording: 'Pause',
+  resumeRecording: 'Resume',
+  recordingSegment: 'Segment {segment}',
+  requestingMicrophone: 'Waiting for microphone permission...',
+  finalizingRecording: 'Finishing recording...',
+
+  // Calibration
+  calibrationTitle: 'Environment check (optional)',
+  calibrationDescription:
+    'Measure background noise and microphone level before recording so unreliable conditions are caught early.',
+  runCalibration: 'Check environment',
+  rerunCalibration: 'Check again',
+  cancel: 'Cancel',
+  calibrationStaySilent:
+    'Please stay silent for {seconds, plural, one {# second} other {# seconds}}…',
+  calibrationSayPhrase: 'Now ask the patient to read this sentence aloud:',
+  calibrationPhrase: 'The sun rose over the quiet village and the birds began to sing.',
+  calibrationPassed: 'Recording conditions look good.',
+  calibrationWarningTitle: 'Recording conditions could be better',
+  calibrationBlockedTitle: 'Recording conditions are unsuitable',
+  calibrationBlockedHelp: 'Fix the issues above and check again before recording.',
+  calibrationNoSpeech:
+    'No speech was detected during the sample sentence. Check that the right microphone is selected and that the patient is close to it.',
+  calibrationNoisy:
+    'The background is too noisy. Turn off fans, televisions or other noise sources, close doors and windows, or move to a quieter room.',
+  calibrationClipping:
+    'The voice is distorting. Move the microphone further from the patient or lower the input volume in the system sound settings.',
+  calibrationTooQuiet:
+    'The voice is very quiet. Move the microphone closer to the patient or raise the input volume in the system sound settings.',
+  calibrationMetrics:
+    'Noise floor {noise, number, integer} dBFS · Speech {speech, number, integer} dBFS · SNR {snr, number, integer} dB · Clipping {clipping, number, percent}',
+  noiseReducedCalibration:
+    'Background noise was reduced using the room noise measured during the environment check.',
+  noiseReducedSilence: 'Background noise was reduced using the silence before speech began.',
+  loudnessNormalized:
+    'Loudness was normalized from {from, number, integer} to {to, number, integer} LUFS.',
+
+  // Upload
+  audioUpload: 'Audio Upload',
+  uploadInstructions:
+    'Upload an existing voice recording (WAV, MP3, M4A/AAC, OGG/Opus, WebM or FLAC).',
+  uploadButton: 'Choose Audio File',
+  dropZoneHint:
+    'Drag and drop one or more audio files here. Several files are analyzed one after another.',
+  uploadQueue: 'Upload queue',
+  queueFile: 'File',
+  queueStatus: 'Status',
+  queueProgress: 'Progress',
+  queueProgressLabel: 'Progress for {name}',
+  queueResult: 'Result',
+  queueActions: 'Actions',
+  queueResultSummary:
+    'Score {score}, {risk, select, High {high} Moderate {moderate} other {low}} risk',
+  uploadQueued: 'Waiting',
+  uploadDecoding: 'Reading file',
+  uploadAnalyzing: 'Analyzing',
+  uploadDone: 'Done',
+  uploadFailed: 'Failed',
+  uploadCancelled: 'Cancelled',
+  viewResult: 'View result',
+  removeFile: 'Remove',
+  fileUploaded: 'File uploaded: {name}',
+  decodingAudio: 'Reading audio file...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, one {mono} =2 {stereo} other {# channels}}',
+  sampleRateValue: '{rate, number} kHz',
+  unknownValue: 'unknown sample rate',
+
+  // Review
+  reviewRecording: 'Review Recording',
+  reviewUpload: 'Review Uploaded Audio',
+  reviewInstructions:
+    'Listen back before analyzing. Drag the handles to trim silence or operator speech at the start and end.',
+  trimStart: 'Trim start',
+  trimEnd: 'Trim end',
+  trimRange: 'Keeping {start, number} s – {end, number} s ({length, number} s)',
+  playSelection: 'Play selection',
+  analyzeRecording: 'Analyze',
+  reRecord: 'Re-record',
+  chooseAnotherFile: 'Choose another file',
+  preprocessingTitle: 'Audio cleanup',
+  preprocessingDescription:
+    'Applied before analysis so background noise and recording level do not skew the measurements.',
+  removeDcOffset: 'Remove DC offset',
+  highPassFilter: 'Filter out low rumble',
+  noiseReduction: 'Reduce background noise',
+  loudnessNormalization: 'Normalize loudness',
+  loudnessTarget: 'Target loudness',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: 'Listen to',
+  listenOriginal: 'Original',
+  listenProcessed: 'Cleaned up',
+  preparingProcessed: 'Preparing cleaned-up audio...',
+
+  // Results
+  analyzing: 'Analyzing voice sample...',
+  stageDecoding: 'Decoding audio',
+  stageQuality: 'Checking recording quality',
+  stagePreprocessing: 'Cleaning up audio',
+  stageVoiceActivity: 'Detecting speech',
+  stageAcoustic: 'Measuring acoustic features',
+  stageScoring: 'Calculating score',
+  analysisResults: 'Analysis Results',
+  telephoneMode: 'Telephone mode',
+  telephoneModeDescription:
+    'This recording was detected as narrowband telephone audio. Features were measured within {low, number, integer}–{high, number, integer} Hz and compared with telephone norms.',
+  alzheimerDetected: "Signs of Alzheimer's Detected",
+  alzheimerNotDetected: "No Signs of Alzheimer's Detected",
+  detectedMessage:
+    'The voice sample shows patterns associated with cognitive decline. Please consult a healthcare professional for a full evaluation.',
+  notDetectedMessage:
+    'The voice sample does not show significant patterns associated with cognitive decline.',
+  overallScore: 'Overall Cognitive Score: {score, number}/100',
+  scoreInfo:
+    'A weighted combination of all voice biomarkers. Higher scores indicate speech patterns closer to healthy controls.',
+  riskLevel: 'Risk Level: {risk, select, High {High} Moderate {Moderate} other {Low}}',
+  analysisConfidence: 'Analysis confidence: {confidence, number, percent}',
+  environmentCheck: 'Environment check: {metrics}',
+  voiceBiomarkers: 'Voice Biomarkers',
+  biomarkersInfo:
+    'Biomarkers are measurable speech characteristics. Each one contributes to the overall score according to its weight.',
+  weight: 'Weight: {weight, number, percent}',
+  percentage: '{value, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: 'Phoneme Articulation',
+  phonemeArticulationDesc: 'Precision of consonant and vowel production',
+  pauseFrequency: 'Pause Frequency',
+  pauseFrequencyDesc: 'How often speech is interrupted by silent pauses',
+  lexicalDiversity: 'Lexical Diversity',
+  lexicalDiversityDesc: 'Variety of vocabulary used',
+  speechRateConsistency: 'Speech Rate Consistency',
+  speechRateConsistencyDesc: 'Stability of speaking rate over time',
+  semanticCoherenceBio: 'Semantic Coherence',
+  semanticCoherenceBioDesc: 'Logical connection between consecutive ideas',
+  prosodicVariation: 'Prosodic Variation',
+  prosodicVariationDesc: 'Natural variation in pitch and intonation',
+  voiceTremor: 'Voice Tremor',
+  voiceTremorDesc: 'Involuntary fluctuation in pitch and loudness',
+  wordFindingDelay: 'Word-Finding Delay',
+  wordFindingDelayDesc: 'Hesitations while searching for words',
+  voiceMeasurements: 'Voice measurements',
+  measurePitch:
+    'Pitch: {mean, number, integer} Hz on average, varying by {std, number, integer} Hz',
+  measureHnr: 'Harmonics-to-noise ratio: {value, number, integer} dB',
+  measureJitter: 'Jitter: {value, number, percent}',
+  measureShimmer: 'Shimmer: {value, number, percent}',
+  rateMeasurements: 'Speaking rate',
+  measureSpeechRate: 'Speech rate: {rate, number} syllables per second overall',
+  measureArticulationRate: 'Articulation rate: {rate, number} syllables per second of speech',
+  pauseMeasurements: 'Pause measurements',
+  measurePauseCount:
+    '{count, plural, =0 {No pauses} one {# pause} other {# pauses}}, {rate, number, integer} per minute',
+  measurePhonation: 'Speaking {ratio, number, percent} of the time',
+  measurePauseLength: 'Pause length: {mean, number} s on average, {median, number} s median',
+  measureLongPauses:
+    '{count, plural, =0 {No long pauses} one {# long pause} other {# long pauses}} ({threshold, number} s or more)',
+  measureOperatorPauses:
+    '{count, plural, one {# silence} other {# silences}} where recording was paused, not counted',
+  pauseDistribution: 'Distribution of pause lengths',
+  pauseBin: '{from, number}–{to, number} s',
+  pauseBinOpen: '{from, number} s +',
+  recordingQuality: 'Recording quality',
+  qualityScore: 'Overall quality: {score, number, percent}',
+  qualitySnr: 'Signal-to-noise ratio: {value, number, integer} dB',
+  qualityClipping: 'Clipping: {value, number, percent} of speech',
+  qualityReverb: 'Reverberation time: {value, number} s',
+  qualityBandwidth: 'Bandwidth: {value, number, integer} Hz',
+  qualitySpeech: 'Speech: {value, duration}',
+  qualityDropouts: '{count, plural, =0 {No dropouts} one {# dropout} other {# dropouts}}',
+  qualityIssueNoisy: 'Background noise is high relative to the voice.',
+  qualityIssueClipping: 'The voice is distorted by clipping.',
+  qualityIssueReverberant: 'The room is echoey, which blurs the speech.',
+  qualityIssueShort: 'There is little speech to measure.',
+  qualityIssueDropouts: 'The signal drops out in places.',
+  qualityIssueNarrowband:
+    'The audio has telephone-like bandwidth, so high-frequency detail is missing.',
+
+  // Indicators
+  speechPatternAnalysis: 'Speech Pattern Analysis',
+  speechClarity: 'Speech Clarity',
+  wordRecall: 'Word Recall',
+  sentenceStructure: 'Sentence Structure',
+  pausePatterns: 'Pause Patterns',
+  prosody: 'Prosody',
+  articulationRate: 'Articulation Rate',
+  semanticCoherence: 'Semantic Coherence',
+  notMeasured: 'Not measured for this sample',
+
+  // Recommendations
+  recommendations: 'Recommendations',
+  nextSteps: 'Next Steps',
+  highRiskRecommendation:
+    'We strongly recommend scheduling an appointment with a neurologist or memory clinic for a comprehensive cognitive assessment.',
+  moderateRiskRecommendation:
+    'Consider discussing these results with your doctor and repeating the screening in 3 to 6 months to track any changes.',
+  lowRiskRecommendation:
+    'No immediate action is needed. Keep an active lifestyle and repeat the screening once a year.',
+
+  // Comments
+  leaveComment: 'Leave a Comment',
+  commentInstructions: 'Share your feedback about the analysis or report a problem.',
+  commentPlaceholder: 'Type your comment here...',
+  submitComment: 'Submit Comment',
+  commentThankYou: 'Thank you for your feedback!',
+
+  // Disclaimer
+  disclaimer: 'Medical Disclaimer',
+  disclaimerText:
+    'This tool is intended for screening and research purposes only and does not provide a medical diagnosis. Always consult a qualified healthcare professional.',
+};
+
+export default en;
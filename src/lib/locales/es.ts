@@ -0,0 +1,281 @@
+import type { Catalog } from '@/lib/i18n';
+
+const es: Catalog = {
+  appName: 'Detección de Alzheimer por Voz',
+  appTagline: 'Detección temprana del Alzheimer mediante el análisis de la voz',
+  appDescription:
+    'Grabe o suba una muestra breve de habla y nuestro análisis buscará biomarcadores vocales y lingüísticos asociados al deterioro cognitivo.',
+  language: 'Idioma',
+  noLanguageFound: 'No se encontró ningún idioma.',
+  error: 'Error',
+  emptyRecording: 'La grabación está vacía. Inténtelo de nuevo.',
+  uploadEmpty: 'El archivo seleccionado no contiene audio.',
+  uploadUnsupportedFormat:
+    'Este tipo de archivo no es compatible. Elija un archivo WAV, MP3, M4A/AAC, OGG/Opus, WebM o FLAC.',
+  uploadCorrupt:
+    'No se pudo decodificar el archivo. Puede estar dañado o incompleto; intente exportarlo de nuevo.',
+  uploadTooLong: 'La grabación es demasiado larga. Suba como máximo {max, duration} de audio.',
+  uploadTooLittleSpeech:
+    'El archivo contiene muy poca voz para analizarlo (se necesitan al menos {required, duration}).',
+  analysisFailed: 'No se pudo completar el análisis. Inténtelo de nuevo.',
+  qualityTooLow: 'La calidad de la grabación es demasiado baja para analizarla de forma fiable.',
+  notEnoughSpeech:
+    'No se detectó suficiente voz para analizar (se encontraron {detected, duration}; se necesitan al menos {required, duration}). Vuelva a grabar y hable durante más tiempo.',
+  micPermissionDeniedTitle: 'Se bloqueó el acceso al micrófono',
+  micPermissionDeniedHelp:
+    'Haga clic en el icono del candado o del micrófono en la barra de direcciones, permita el acceso al micrófono para este sitio y vuelva a intentarlo. Si cerró el aviso, recargue la página para que aparezca de nuevo.',
+  micNotFoundTitle: 'No se encontró ningún micrófono',
+  micNotFoundHelp:
+    'Conecte un micrófono o unos auriculares con micrófono, compruebe que esté activado en la configuración de sonido del sistema y vuelva a intentarlo.',
+  micBusyTitle: 'El micrófono está en uso',
+  micBusyHelp:
+    'Cierre otras aplicaciones o pestañas que puedan estar usando el micrófono (videollamadas, dictado) y vuelva a intentarlo.',
+  insecureContextTitle: 'La grabación requiere una conexión segura',
+  insecureContextHelp:
+    'Los navegadores solo permiten el acceso al micrófono mediante HTTPS. Abra esta página con una dirección https:// o suba una grabación.',
+  recordingUnsupportedTitle: 'Este navegador no puede grabar audio',
+  recordingUnsupportedHelp:
+    'Use una versión actual de Chrome, Edge, Firefox o Safari, o suba una grabación existente.',
+  recordingFailedTitle: 'La grabación ha fallado',
+  recordingFailedHelp:
+    'Se produjo un error al acceder al micrófono. Vuelva a intentarlo o suba una grabación.',
+  retry: 'Reintentar',
+  useFileUpload: 'Subir un archivo',
+  dismiss: 'Cerrar',
+
+  // Recording
+  voiceRecording: 'Grabación de voz',
+  recordingInstructions:
+    'Hable con naturalidad sobre su día, describa una imagen o cuente una historia breve. Intente hablar de forma continua durante toda la grabación.',
+  recordingDuration: 'Duración de la grabación:',
+  microphone: 'Micrófono:',
+  systemDefaultMicrophone: 'Predeterminado del sistema',
+  microphoneNumber: 'Micrófono {index}',
+  testMicrophone: 'Probar micrófono',
+  stopMicrophoneTest: 'Detener prueba',
+  inputLevel: 'Nivel de entrada del micrófono',
+  durationOption: '{seconds, plural, one {# segundo} other {# segundos}}',
+  maxRecordingDuration: 'Duración máxima:',
+  autoStopOnSilence: 'Detener automáticamente',
+  silenceLength: 'Silencio antes de detener',
+  silenceOption: 'tras {seconds, plural, one {# segundo} other {# segundos}} de silencio',
+  speechCaptured: 'Voz captada: {voiced, duration} de {required, duration}',
+  waitingForSilence:
+    'Se ha captado suficiente voz. La grabación se detendrá tras {seconds, plural, one {# segundo} other {# segundos}} de silencio.',
+  startRecording: 'Iniciar grabación',
+  stopRecording: 'Detener grabación ({elapsed, duration} / {total, duration})',
+  recordingInProgress: 'Grabación en curso...',
+  recordingPaused: 'Grabación en pausa',
+  pauseRecording: 'Pausar',
+  resumeRecording: 'Reanudar',
+  recordingSegment: 'Segmento {segment}',
+  requestingMicrophone: 'Esperando el permiso del micrófono...',
+  finalizingRecording: 'Finalizando la grabación...',
+
+  // Calibration
+  calibrationTitle: 'Comprobación del entorno (opcional)',
+  calibrationDescription:
+    'Mida el ruido de fondo y el nivel del micrófono antes de grabar para detectar a tiempo condiciones poco fiables.',
+  runCalibration: 'Comprobar entorno',
+  rerunCalibration: 'Comprobar de nuevo',
+  cancel: 'Cancelar',
+  calibrationStaySilent:
+    'Permanezca en silencio durante {seconds, plural, one {# segundo} other {# segundos}}…',
+  calibrationSayPhrase: 'Ahora pida al paciente que lea esta frase en voz alta:',
+  calibrationPhrase: 'El sol salió sobre el pueblo tranquilo y los pájaros empezaron a cantar.',
+  calibrationPassed: 'Las condiciones de grabación son buenas.',
+  calibrationWarningTitle: 'Las condiciones de grabación podrían mejorar',
+  calibrationBlockedTitle: 'Las condiciones de grabación no son adecuadas',
+  calibrationBlockedHelp: 'Corrija los problemas indicados y vuelva a comprobar antes de grabar.',
+  calibrationNoSpeech:
+    'No se detectó voz durante la frase de prueba. Compruebe que esté seleccionado el micrófono correcto y que el paciente esté cerca de él.',
+  calibrationNoisy:
+    'Hay demasiado ruido de fondo. Apague ventiladores, televisores u otras fuentes de ruido, cierre puertas y ventanas o cámbiese a una sala más silenciosa.',
+  calibrationClipping:
+    'La voz se distorsiona. Aleje el micrófono del paciente o baje el volumen de entrada en la configuración de sonido del sistema.',
+  calibrationTooQuiet:
+    'La voz es muy baja. Acerque el micrófono al paciente o suba el volumen de entrada en la configuración de sonido del sistema.',
+  calibrationMetrics:
+    'Ruido de fondo {noise, number, integer} dBFS · Voz {speech, number, integer} dBFS · SNR {snr, number, integer} dB · Saturación {clipping, number, percent}',
+  noiseReducedCalibration:
+    'El ruido de fondo se redujo con el ruido ambiental medido durante la comprobación del entorno.',
+  noiseReducedSilence: 'El ruido de fondo se redujo con el silencio previo al habla.',
+  loudnessNormalized:
+    'El volumen se normalizó de {from, number, integer} a {to, number, integer} LUFS.',
+
+  // Upload
+  audioUpload: 'Subir audio',
+  uploadInstructions:
+    'Suba una grabación de voz existente (WAV, MP3, M4A/AAC, OGG/Opus, WebM o FLAC).',
+  uploadButton: 'Elegir archivo de audio',
+  dropZoneHint:
+    'Arrastre y suelte aquí uno o más archivos de audio. Varios archivos se analizan uno tras otro.',
+  uploadQueue: 'Cola de carga',
+  queueFile: 'Archivo',
+  queueStatus: 'Estado',
+  queueProgress: 'Progreso',
+  queueProgressLabel: 'Progreso de {name}',
+  queueResult: 'Resultado',
+  queueActions: 'Acciones',
+  queueResultSummary:
+    'Puntuación {score}, riesgo {risk, select, High {alto} Moderate {moderado} other {bajo}}',
+  uploadQueued: 'En espera',
+  uploadDecoding: 'Leyendo archivo',
+  uploadAnalyzing: 'Analizando',
+  uploadDone: 'Completado',
+  uploadFailed: 'Error',
+  uploadCancelled: 'Cancelado',
+  viewResult: 'Ver resultado',
+  removeFile: 'Quitar',
+  fileUploaded: 'Archivo subido: {name}',
+  decodingAudio: 'Leyendo archivo de audio...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, one {mono} =2 {estéreo} other {# canales}}',
+  sampleRateValue: '{rate, number} kHz',
+  unknownValue: 'frecuencia de muestreo desconocida',
+
+  // Review
+  reviewRecording: 'Revisar grabación',
+  reviewUpload: 'Revisar audio subido',
+  reviewInstructions:
+    'Escuche la grabación antes de analizarla. Arrastre los controles para recortar el silencio o la voz del operador al principio y al final.',
+  trimStart: 'Inicio del recorte',
+  trimEnd: 'Fin del recorte',
+  trimRange: 'Se conserva {start, number} s – {end, number} s ({length, number} s)',
+  playSelection: 'Reproducir selección',
+  analyzeRecording: 'Analizar',
+  reRecord: 'Volver a grabar',
+  chooseAnotherFile: 'Elegir otro archivo',
+  preprocessingTitle: 'Limpieza del audio',
+  preprocessingDescription:
+    'Se aplica antes del análisis para que el ruido de fondo y el nivel de grabación no distorsionen las mediciones.',
+  removeDcOffset: 'Eliminar el desplazamiento de CC',
+  highPassFilter: 'Filtrar el retumbo grave',
+  noiseReduction: 'Reducir el ruido de fondo',
+  loudnessNormalization: 'Normalizar el volumen',
+  loudnessTarget: 'Volumen objetivo',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: 'Escuchar',
+  listenOriginal: 'Original',
+  listenProcessed: 'Limpio',
+  preparingProcessed: 'Preparando el audio limpio...',
+
+  // Results
+  analyzing: 'Analizando la muestra de voz...',
+  stageDecoding: 'Decodificando audio',
+  stageQuality: 'Comprobando la calidad de la grabación',
+  stagePreprocessing: 'Limpiando el audio',
+  stageVoiceActivity: 'Detectando voz',
+  stageAcoustic: 'Midiendo características acústicas',
+  stageScoring: 'Calculando la puntuación',
+  analysisResults: 'Resultados del análisis',
+  telephoneMode: 'Modo telefónico',
+  telephoneModeDescription:
+    'Esta grabación se detectó como audio telefónico de banda estrecha. Las características se midieron entre {low, number, integer} y {high, number, integer} Hz y se compararon con normas telefónicas.',
+  alzheimerDetected: 'Se detectaron signos de Alzheimer',
+  alzheimerNotDetected: 'No se detectaron signos de Alzheimer',
+  detectedMessage:
+    'La muestra de voz presenta patrones asociados al deterioro cognitivo. Consulte a un profesional de la salud para una evaluación completa.',
+  notDetectedMessage:
+    'La muestra de voz no presenta patrones significativos asociados al deterioro cognitivo.',
+  overallScore: 'Puntuación cognitiva global: {score, number}/100',
+  scoreInfo:
+    'Combinación ponderada de todos los biomarcadores de voz. Una puntuación más alta indica patrones de habla más cercanos a los de controles sanos.',
+  riskLevel: 'Nivel de riesgo: {risk, select, High {alto} Moderate {moderado} other {bajo}}',
+  analysisConfidence: 'Confianza del análisis: {confidence, number, percent}',
+  environmentCheck: 'Comprobación del entorno: {metrics}',
+  voiceBiomarkers: 'Biomarcadores de voz',
+  biomarkersInfo:
+    'Los biomarcadores son características medibles del habla. Cada uno contribuye a la puntuación global según su peso.',
+  weight: 'Peso: {weight, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: 'Articulación de fonemas',
+  phonemeArticulationDesc: 'Precisión en la producción de consonantes y vocales',
+  pauseFrequency: 'Frecuencia de pausas',
+  pauseFrequencyDesc: 'Con qué frecuencia el habla se interrumpe con pausas silenciosas',
+  lexicalDiversity: 'Diversidad léxica',
+  lexicalDiversityDesc: 'Variedad del vocabulario utilizado',
+  speechRateConsistency: 'Constancia de la velocidad del habla',
+  speechRateConsistencyDesc: 'Estabilidad del ritmo de habla a lo largo del tiempo',
+  semanticCoherenceBio: 'Coherencia semántica',
+  semanticCoherenceBioDesc: 'Conexión lógica entre ideas consecutivas',
+  prosodicVariation: 'Variación prosódica',
+  prosodicVariationDesc: 'Variación natural del tono y la entonación',
+  voiceTremor: 'Temblor de voz',
+  voiceTremorDesc: 'Fluctuación involuntaria del tono y el volumen',
+  wordFindingDelay: 'Demora en encontrar palabras',
+  wordFindingDelayDesc: 'Vacilaciones al buscar palabras',
+  voiceMeasurements: 'Mediciones de la voz',
+  measurePitch:
+    'Tono: {mean, number, integer} Hz de media, con una variación de {std, number, integer} Hz',
+  measureHnr: 'Relación armónicos-ruido: {value, number, integer} dB',
+  measureJitter: 'Jitter: {value, number, percent}',
+  measureShimmer: 'Shimmer: {value, number, percent}',
+  rateMeasurements: 'Velocidad del habla',
+  measureSpeechRate: 'Velocidad del habla: {rate, number} sílabas por segundo en total',
+  measureArticulationRate: 'Velocidad de articulación: {rate, number} sílabas por segundo de habla',
+  pauseMeasurements: 'Mediciones de pausas',
+  measurePauseCount:
+    '{count, plural, =0 {Sin pausas} one {# pausa} other {# pausas}}, {rate, number, integer} por minuto',
+  measurePhonation: 'Hablando el {ratio, number, percent} del tiempo',
+  measurePauseLength:
+    'Duración de las pausas: {mean, number} s de media, mediana {median, number} s',
+  measureLongPauses:
+    '{count, plural, =0 {Sin pausas largas} one {# pausa larga} other {# pausas largas}} ({threshold, number} s o más)',
+  measureOperatorPauses:
+    '{count, plural, one {# silencio} other {# silencios}} donde se pausó la grabación, sin contar',
+  pauseDistribution: 'Distribución de la duración de las pausas',
+  pauseBin: '{from, number}–{to, number} s',
+  pauseBinOpen: '{from, number} s o más',
+  recordingQuality: 'Calidad de la grabación',
+  qualityScore: 'Calidad general: {score, number, percent}',
+  qualitySnr: 'Relación señal/ruido: {value, number, integer} dB',
+  qualityClipping: 'Saturación: {value, number, percent} del habla',
+  qualityReverb: 'Tiempo de reverberación: {value, number} s',
+  qualityBandwidth: 'Ancho de banda: {value, number, integer} Hz',
+  qualitySpeech: 'Habla: {value, duration}',
+  qualityDropouts: '{count, plural, =0 {Sin cortes} one {# corte} other {# cortes}}',
+  qualityIssueNoisy: 'El ruido de fondo es alto en relación con la voz.',
+  qualityIssueClipping: 'La voz está distorsionada por saturación.',
+  qualityIssueReverberant: 'La sala tiene eco, lo que difumina el habla.',
+  qualityIssueShort: 'Hay pocos segundos de habla para medir.',
+  qualityIssueDropouts: 'La señal se corta en algunos puntos.',
+  qualityIssueNarrowband:
+    'El audio tiene un ancho de banda telefónico, por lo que faltan los detalles de alta frecuencia.',
+
+  // Indicators
+  speechPatternAnalysis: 'Análisis de patrones del habla',
+  speechClarity: 'Claridad del habla',
+  wordRecall: 'Evocación de palabras',
+  sentenceStructure: 'Estructura de las oraciones',
+  pausePatterns: 'Patrones de pausas',
+  prosody: 'Prosodia',
+  articulationRate: 'Velocidad de articulación',
+  semanticCoherence: 'Coherencia semántica',
+  notMeasured: 'No medido en esta muestra',
+
+  // Recommendations
+  recommendations: 'Recomendaciones',
+  nextSteps: 'Próximos pasos',
+  highRiskRecommendation:
+    'Recomendamos encarecidamente pedir cita con un neurólogo o una unidad de memoria para una evaluación cognitiva completa.',
+  moderateRiskRecommendation:
+    'Considere comentar estos resultados con su médico y repetir la prueba dentro de 3 a 6 meses para seguir su evolución.',
+  lowRiskRecommendation:
+    'No es necesario tomar medidas inmediatas. Mantenga un estilo de vida activo y repita la prueba una vez al año.',
+
+  // Comments
+  leaveComment: 'Deje un comentario',
+  commentInstructions: 'Comparta su opinión sobre el análisis o informe de un problema.',
+  commentPlaceholder: 'Escriba su comentario aquí...',
+  submitComment: 'Enviar comentario',
+  commentThankYou: '¡Gracias por sus comentarios!',
+
+  // Disclaimer
+  disclaimer: 'Aviso médico',
+  disclaimerText:
+    'Esta herramienta está destinada únicamente a fines de cribado e investigación y no proporciona un diagnóstico médico. Consulte siempre a un profesional de la salud cualificado.',
+};
+
+export default es;
@@ -0,0 +1,282 @@
+import type { Catalog } from '@/lib/i18n';
+
+const fr: Catalog = {
+  appName: 'Dépistage vocal de la maladie d’Alzheimer',
+  appTagline: 'Dépistage précoce de la maladie d’Alzheimer par l’analyse de la voix',
+  appDescription:
+    'Enregistrez ou importez un court échantillon de parole : notre analyse recherchera des biomarqueurs vocaux et linguistiques associés au déclin cognitif.',
+  language: 'Langue',
+  noLanguageFound: 'Aucune langue trouvée.',
+  error: 'Erreur',
+  emptyRecording: 'L’enregistrement est vide. Veuillez réessayer.',
+  uploadEmpty: 'Le fichier sélectionné ne contient aucun son.',
+  uploadUnsupportedFormat:
+    'Ce type de fichier n’est pas pris en charge. Choisissez un fichier WAV, MP3, M4A/AAC, OGG/Opus, WebM ou FLAC.',
+  uploadCorrupt:
+    'Le fichier n’a pas pu être décodé. Il est peut-être endommagé ou incomplet ; essayez de l’exporter à nouveau.',
+  uploadTooLong: 'L’enregistrement est trop long. Importez au maximum {max, duration} d’audio.',
+  uploadTooLittleSpeech:
+    'Le fichier contient trop peu de parole pour être analysé (au moins {required, duration} nécessaires).',
+  analysisFailed: "L'analyse n'a pas pu aboutir. Veuillez réessayer.",
+  qualityTooLow: 'La qualité de l’enregistrement est trop faible pour une analyse fiable.',
+  notEnoughSpeech:
+    'Pas assez de parole détectée pour l’analyse ({detected, duration} trouvées, au moins {required, duration} nécessaires). Veuillez réenregistrer en parlant plus longtemps.',
+  micPermissionDeniedTitle: 'L’accès au microphone a été bloqué',
+  micPermissionDeniedHelp:
+    'Cliquez sur l’icône de cadenas ou de microphone dans la barre d’adresse, autorisez l’accès au microphone pour ce site, puis réessayez. Si vous avez fermé la demande, rechargez la page pour l’afficher à nouveau.',
+  micNotFoundTitle: 'Aucun microphone détecté',
+  micNotFoundHelp:
+    'Branchez un microphone ou un casque, vérifiez qu’il est activé dans les paramètres son du système, puis réessayez.',
+  micBusyTitle: 'Le microphone est déjà utilisé',
+  micBusyHelp:
+    'Fermez les autres applications ou onglets qui utilisent peut-être le microphone (visioconférence, dictée), puis réessayez.',
+  insecureContextTitle: 'L’enregistrement nécessite une connexion sécurisée',
+  insecureContextHelp:
+    'Les navigateurs n’autorisent l’accès au microphone qu’en HTTPS. Ouvrez cette page avec une adresse https:// ou importez plutôt un enregistrement.',
+  recordingUnsupportedTitle: 'Ce navigateur ne peut pas enregistrer de son',
+  recordingUnsupportedHelp:
+    'Utilisez une version récente de Chrome, Edge, Firefox ou Safari, ou importez plutôt un enregistrement existant.',
+  recordingFailedTitle: 'L’enregistrement a échoué',
+  recordingFailedHelp:
+    'Une erreur s’est produite lors de l’accès au microphone. Réessayez ou importez plutôt un enregistrement.',
+  retry: 'Réessayer',
+  useFileUpload: 'Importer un fichier',
+  dismiss: 'Fermer',
+
+  // Recording
+  voiceRecording: 'Enregistrement vocal',
+  recordingInstructions:
+    'Parlez naturellement de votre journée, décrivez une image ou racontez une courte histoire. Essayez de parler sans interruption pendant tout l’enregistrement.',
+  recordingDuration: 'Durée de l’enregistrement :',
+  microphone: 'Microphone :',
+  systemDefaultMicrophone: 'Par défaut du système',
+  microphoneNumber: 'Microphone {index}',
+  testMicrophone: 'Tester le microphone',
+  stopMicrophoneTest: 'Arrêter le test',
+  inputLevel: 'Niveau d’entrée du microphone',
+  durationOption: '{seconds, plural, one {# seconde} other {# secondes}}',
+  maxRecordingDuration: 'Durée maximale :',
+  autoStopOnSilence: 'Arrêt automatique',
+  silenceLength: 'Silence avant l’arrêt',
+  silenceOption: 'après {seconds, plural, one {# seconde} other {# secondes}} de silence',
+  speechCaptured: 'Parole captée : {voiced, duration} sur {required, duration}',
+  waitingForSilence:
+    'Parole suffisante captée. L’enregistrement s’arrêtera après {seconds, plural, one {# seconde} other {# secondes}} de silence.',
+  startRecording: 'Démarrer l’enregistrement',
+  stopRecording: 'Arrêter l’enregistrement ({elapsed, duration} / {total, duration})',
+  recordingInProgress: 'Enregistrement en cours...',
+  recordingPaused: 'Enregistrement en pause',
+  pauseRecording: 'Pause',
+  resumeRecording: 'Reprendre',
+  recordingSegment: 'Segment {segment}',
+  requestingMicrophone: 'En attente de l’autorisation du microphone...',
+  finalizingRecording: 'Finalisation de l’enregistrement...',
+
+  // Calibration
+  calibrationTitle: 'Vérification de l’environnement (facultative)',
+  calibrationDescription:
+    'Mesurez le bruit de fond et le niveau du microphone avant l’enregistrement pour repérer tôt les conditions peu fiables.',
+  runCalibration: 'Vérifier l’environnement',
+  rerunCalibration: 'Vérifier à nouveau',
+  cancel: 'Annuler',
+  calibrationStaySilent:
+    'Veuillez rester silencieux pendant {seconds, plural, one {# seconde} other {# secondes}}…',
+  calibrationSayPhrase: 'Demandez maintenant au patient de lire cette phrase à voix haute :',
+  calibrationPhrase:
+    'Le soleil s’est levé sur le village paisible et les oiseaux ont commencé à chanter.',
+  calibrationPassed: 'Les conditions d’enregistrement sont bonnes.',
+  calibrationWarningTitle: 'Les conditions d’enregistrement pourraient être meilleures',
+  calibrationBlockedTitle: 'Les conditions d’enregistrement ne conviennent pas',
+  calibrationBlockedHelp:
+    'Corrigez les problèmes ci-dessus et vérifiez à nouveau avant d’enregistrer.',
+  calibrationNoSpeech:
+    'Aucune parole n’a été détectée pendant la phrase d’essai. Vérifiez que le bon microphone est sélectionné et que le patient en est proche.',
+  calibrationNoisy:
+    'Le bruit de fond est trop élevé. Éteignez ventilateurs, téléviseurs ou autres sources de bruit, fermez portes et fenêtres, ou changez pour une pièce plus calme.',
+  calibrationClipping:
+    'La voix sature. Éloignez le microphone du patient ou baissez le volume d’entrée dans les paramètres son du système.',
+  calibrationTooQuiet:
+    'La voix est très faible. Rapprochez le microphone du patient ou augmentez le volume d’entrée dans les paramètres son du système.',
+  calibrationMetrics:
+    'Bruit de fond {noise, number, integer} dBFS · Voix {speech, number, integer} dBFS · RSB {snr, number, integer} dB · Saturation {clipping, number, percent}',
+  noiseReducedCalibration:
+    'Le bruit de fond a été réduit à l’aide du bruit ambiant mesuré lors de la vérification de l’environnement.',
+  noiseReducedSilence: 'Le bruit de fond a été réduit à l’aide du silence précédant la parole.',
+  loudnessNormalized:
+    'Le volume a été normalisé de {from, number, integer} à {to, number, integer} LUFS.',
+
+  // Upload
+  audioUpload: 'Importer un fichier audio',
+  uploadInstructions:
+    'Importez un enregistrement vocal existant (WAV, MP3, M4A/AAC, OGG/Opus, WebM ou FLAC).',
+  uploadButton: 'Choisir un fichier audio',
+  dropZoneHint:
+    "Glissez-déposez un ou plusieurs fichiers audio ici. Plusieurs fichiers sont analysés l'un après l'autre.",
+  uploadQueue: "File d'envoi",
+  queueFile: 'Fichier',
+  queueStatus: 'Statut',
+  queueProgress: 'Progression',
+  queueProgressLabel: 'Progression de {name}',
+  queueResult: 'Résultat',
+  queueActions: 'Actions',
+  queueResultSummary:
+    'Score {score}, risque {risk, select, High {élevé} Moderate {modéré} other {faible}}',
+  uploadQueued: 'En attente',
+  uploadDecoding: 'Lecture du fichier',
+  uploadAnalyzing: 'Analyse en cours',
+  uploadDone: 'Terminé',
+  uploadFailed: 'Échec',
+  uploadCancelled: 'Annulé',
+  viewResult: 'Voir le résultat',
+  removeFile: 'Retirer',
+  fileUploaded: 'Fichier importé : {name}',
+  decodingAudio: 'Lecture du fichier audio...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, one {mono} =2 {stéréo} other {# canaux}}',
+  sampleRateValue: '{rate, number} kHz',
+  unknownValue: 'fréquence d’échantillonnage inconnue',
+
+  // Review
+  reviewRecording: 'Vérifier l’enregistrement',
+  reviewUpload: 'Vérifier l’audio importé',
+  reviewInstructions:
+    'Réécoutez avant l’analyse. Faites glisser les poignées pour couper le silence ou la voix de l’opérateur au début et à la fin.',
+  trimStart: 'Début du découpage',
+  trimEnd: 'Fin du découpage',
+  trimRange: 'Conservé : {start, number} s – {end, number} s ({length, number} s)',
+  playSelection: 'Lire la sélection',
+  analyzeRecording: 'Analyser',
+  reRecord: 'Réenregistrer',
+  chooseAnotherFile: 'Choisir un autre fichier',
+  preprocessingTitle: 'Nettoyage de l’audio',
+  preprocessingDescription:
+    'Appliqué avant l’analyse pour que le bruit de fond et le niveau d’enregistrement ne faussent pas les mesures.',
+  removeDcOffset: 'Supprimer la composante continue',
+  highPassFilter: 'Filtrer les grondements graves',
+  noiseReduction: 'Réduire le bruit de fond',
+  loudnessNormalization: 'Normaliser le volume',
+  loudnessTarget: 'Volume cible',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: 'Écouter',
+  listenOriginal: 'Original',
+  listenProcessed: 'Nettoyé',
+  preparingProcessed: 'Préparation de l’audio nettoyé...',
+
+  // Results
+  analyzing: 'Analyse de l’échantillon vocal...',
+  stageDecoding: "Décodage de l'audio",
+  stageQuality: 'Vérification de la qualité de l’enregistrement',
+  stagePreprocessing: 'Nettoyage de l’audio',
+  stageVoiceActivity: 'Détection de la parole',
+  stageAcoustic: 'Mesure des caractéristiques acoustiques',
+  stageScoring: 'Calcul du score',
+  analysisResults: 'Résultats de l’analyse',
+  telephoneMode: 'Mode téléphone',
+  telephoneModeDescription:
+    'Cet enregistrement a été détecté comme de l’audio téléphonique à bande étroite. Les caractéristiques ont été mesurées entre {low, number, integer} et {high, number, integer} Hz et comparées aux normes téléphoniques.',
+  alzheimerDetected: 'Signes de la maladie d’Alzheimer détectés',
+  alzheimerNotDetected: 'Aucun signe de la maladie d’Alzheimer détecté',
+  detectedMessage:
+    'L’échantillon vocal présente des schémas associés au déclin cognitif. Veuillez consulter un professionnel de santé pour une évaluation complète.',
+  notDetectedMessage:
+    'L’échantillon vocal ne présente pas de schémas significatifs associés au déclin cognitif.',
+  overallScore: 'Score cognitif global : {score, number}/100',
+  scoreInfo:
+    'Combinaison pondérée de tous les biomarqueurs vocaux. Un score plus élevé indique une parole plus proche de celle des sujets sains.',
+  riskLevel: 'Niveau de risque : {risk, select, High {élevé} Moderate {modéré} other {faible}}',
+  analysisConfidence: 'Fiabilité de l’analyse : {confidence, number, percent}',
+  environmentCheck: 'Vérification de l’environnement : {metrics}',
+  voiceBiomarkers: 'Biomarqueurs vocaux',
+  biomarkersInfo:
+    'Les biomarqueurs sont des caractéristiques mesurables de la parole. Chacun contribue au score global selon son poids.',
+  weight: 'Poids : {weight, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: 'Articulation des phonèmes',
+  phonemeArticulationDesc: 'Précision de la production des consonnes et des voyelles',
+  pauseFrequency: 'Fréquence des pauses',
+  pauseFrequencyDesc: 'Fréquence à laquelle la parole est interrompue par des silences',
+  lexicalDiversity: 'Diversité lexicale',
+  lexicalDiversityDesc: 'Variété du vocabulaire utilisé',
+  speechRateConsistency: 'Régularité du débit',
+  speechRateConsistencyDesc: 'Stabilité du débit de parole dans le temps',
+  semanticCoherenceBio: 'Cohérence sémantique',
+  semanticCoherenceBioDesc: 'Lien logique entre les idées successives',
+  prosodicVariation: 'Variation prosodique',
+  prosodicVariationDesc: 'Variation naturelle de la hauteur et de l’intonation',
+  voiceTremor: 'Tremblement de la voix',
+  voiceTremorDesc: 'Fluctuation involontaire de la hauteur et de l’intensité',
+  wordFindingDelay: 'Manque du mot',
+  wordFindingDelayDesc: 'Hésitations lors de la recherche de mots',
+  voiceMeasurements: 'Mesures de la voix',
+  measurePitch:
+    'Hauteur : {mean, number, integer} Hz en moyenne, avec une variation de {std, number, integer} Hz',
+  measureHnr: 'Rapport harmoniques/bruit : {value, number, integer} dB',
+  measureJitter: 'Jitter : {value, number, percent}',
+  measureShimmer: 'Shimmer : {value, number, percent}',
+  rateMeasurements: 'Débit de parole',
+  measureSpeechRate: 'Débit de parole : {rate, number} syllabes par seconde au total',
+  measureArticulationRate: 'Débit articulatoire : {rate, number} syllabes par seconde de parole',
+  pauseMeasurements: 'Mesures des pauses',
+  measurePauseCount:
+    '{count, plural, =0 {Aucune pause} one {# pause} other {# pauses}}, {rate, number, integer} par minute',
+  measurePhonation: 'Parole pendant {ratio, number, percent} du temps',
+  measurePauseLength: 'Durée des pauses : {mean, number} s en moyenne, médiane {median, number} s',
+  measureLongPauses:
+    '{count, plural, =0 {Aucune pause longue} one {# pause longue} other {# pauses longues}} ({threshold, number} s ou plus)',
+  measureOperatorPauses:
+    "{count, plural, one {# silence} other {# silences}} aux pauses d'enregistrement, non comptés",
+  pauseDistribution: 'Répartition des durées de pause',
+  pauseBin: '{from, number}–{to, number} s',
+  pauseBinOpen: '{from, number} s et plus',
+  recordingQuality: 'Qualité de l’enregistrement',
+  qualityScore: 'Qualité globale : {score, number, percent}',
+  qualitySnr: 'Rapport signal/bruit : {value, number, integer} dB',
+  qualityClipping: 'Écrêtage : {value, number, percent} de la parole',
+  qualityReverb: 'Temps de réverbération : {value, number} s',
+  qualityBandwidth: 'Bande passante : {value, number, integer} Hz',
+  qualitySpeech: 'Parole : {value, duration}',
+  qualityDropouts: '{count, plural, =0 {Aucune coupure} one {# coupure} other {# coupures}}',
+  qualityIssueNoisy: 'Le bruit de fond est élevé par rapport à la voix.',
+  qualityIssueClipping: 'La voix est déformée par l’écrêtage.',
+  qualityIssueReverberant: 'La pièce résonne, ce qui brouille la parole.',
+  qualityIssueShort: 'Il y a peu de parole à mesurer.',
+  qualityIssueDropouts: 'Le signal se coupe par endroits.',
+  qualityIssueNarrowband:
+    'L’audio a une bande passante téléphonique : les détails aigus sont absents.',
+
+  // Indicators
+  speechPatternAnalysis: 'Analyse des schémas de parole',
+  speechClarity: 'Clarté de la parole',
+  wordRecall: 'Rappel des mots',
+  sentenceStructure: 'Structure des phrases',
+  pausePatterns: 'Schémas de pauses',
+  prosody: 'Prosodie',
+  articulationRate: 'Débit articulatoire',
+  semanticCoherence: 'Cohérence sémantique',
+  notMeasured: 'Non mesuré pour cet échantillon',
+
+  // Recommendations
+  recommendations: 'Recommandations',
+  nextSteps: 'Prochaines étapes',
+  highRiskRecommendation:
+    'Nous vous recommandons vivement de prendre rendez-vous avec un neurologue ou une consultation mémoire pour une évaluation cognitive complète.',
+  moderateRiskRecommendation:
+    'Envisagez de discuter de ces résultats avec votre médecin et de refaire le dépistage dans 3 à 6 mois pour suivre l’évolution.',
+  lowRiskRecommendation:
+    'Aucune mesure immédiate n’est nécessaire. Conservez un mode de vie actif et refaites le dépistage une fois par an.',
+
+  // Comments
+  leaveComment: 'Laisser un commentaire',
+  commentInstructions: 'Donnez votre avis sur l’analyse ou signalez un problème.',
+  commentPlaceholder: 'Saisissez votre commentaire ici...',
+  submitComment: 'Envoyer le commentaire',
+  commentThankYou: 'Merci pour votre retour !',
+
+  // Disclaimer
+  disclaimer: 'Avertissement médical',
+  disclaimerText:
+    'Cet outil est destiné uniquement au dépistage et à la recherche et ne fournit pas de diagnostic médical. Consultez toujours un professionnel de santé qualifié.',
+};
+
+export default fr;
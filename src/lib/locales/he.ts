@@ -0,0 +1,269 @@
+import type { Catalog } from '@/lib/i18n';
+
+const he: Catalog = {
+  appName: 'סינון אלצהיימר קולי',
+  appTagline: 'זיהוי מוקדם של אלצהיימר באמצעות ניתוח קול',
+  appDescription:
+    'הקליטו או העלו דגימת דיבור קצרה, והניתוח שלנו יחפש סמנים ביולוגיים קוליים ולשוניים הקשורים לירידה קוגניטיבית.',
+  language: 'שפה',
+  noLanguageFound: 'לא נמצאה שפה.',
+  error: 'שגיאה',
+  emptyRecording: 'ההקלטה ריקה. נסו שוב.',
+  uploadEmpty: 'הקובץ שנבחר אינו מכיל שמע.',
+  uploadUnsupportedFormat:
+    'סוג קובץ זה אינו נתמך. נא לבחור קובץ WAV,‏ MP3,‏ M4A/AAC,‏ OGG/Opus,‏ WebM או FLAC.',
+  uploadCorrupt: 'לא ניתן לפענח את הקובץ. ייתכן שהוא פגום או חלקי; נסו לייצא אותו שוב.',
+  uploadTooLong: 'ההקלטה ארוכה מדי. נא להעלות עד {max, duration} של שמע.',
+  uploadTooLittleSpeech: 'הקובץ מכיל מעט מדי דיבור לניתוח (נדרשות לפחות {required, duration}).',
+  analysisFailed: 'לא ניתן היה להשלים את הניתוח. נסו שוב.',
+  qualityTooLow: 'איכות ההקלטה נמוכה מכדי לנתח אותה באופן אמין.',
+  notEnoughSpeech:
+    'לא זוהה מספיק דיבור לניתוח (נמצאו {detected, duration}, נדרשות לפחות {required, duration}). נא להקליט מחדש ולדבר זמן רב יותר.',
+  micPermissionDeniedTitle: 'הגישה למיקרופון נחסמה',
+  micPermissionDeniedHelp:
+    'לחצו על סמל המנעול או המיקרופון בשורת הכתובת, אפשרו גישה למיקרופון לאתר זה ונסו שוב. אם סגרתם את הבקשה, טענו מחדש את הדף כדי להציג אותה שוב.',
+  micNotFoundTitle: 'לא נמצא מיקרופון',
+  micNotFoundHelp: 'חברו מיקרופון או אוזניות, ודאו שהוא מופעל בהגדרות הקול של המערכת ונסו שוב.',
+  micBusyTitle: 'המיקרופון נמצא בשימוש',
+  micBusyHelp:
+    'סגרו יישומים או כרטיסיות אחרים שעשויים להשתמש במיקרופון (שיחות וידאו, הכתבה) ונסו שוב.',
+  insecureContextTitle: 'הקלטה מחייבת חיבור מאובטח',
+  insecureContextHelp:
+    'דפדפנים מאפשרים גישה למיקרופון רק דרך HTTPS. פתחו את הדף בכתובת https:// או העלו הקלטה במקום.',
+  recordingUnsupportedTitle: 'דפדפן זה אינו יכול להקליט שמע',
+  recordingUnsupportedHelp:
+    'השתמשו בגרסה עדכנית של Chrome,‏ Edge,‏ Firefox או Safari, או העלו הקלטה קיימת במקום.',
+  recordingFailedTitle: 'ההקלטה נכשלה',
+  recordingFailedHelp: 'אירעה שגיאה בגישה למיקרופון. נסו שוב או העלו הקלטה במקום.',
+  retry: 'נסו שוב',
+  useFileUpload: 'העלאת קובץ במקום',
+  dismiss: 'סגירה',
+
+  // Recording
+  voiceRecording: 'הקלטת קול',
+  recordingInstructions:
+    'דברו באופן טבעי על היום שלכם, תארו תמונה או ספרו סיפור קצר. נסו לדבר ברצף לאורך כל ההקלטה.',
+  recordingDuration: 'משך ההקלטה:',
+  microphone: 'מיקרופון:',
+  systemDefaultMicrophone: 'ברירת המחדל של המערכת',
+  microphoneNumber: 'מיקרופון {index}',
+  testMicrophone: 'בדיקת מיקרופון',
+  stopMicrophoneTest: 'עצירת הבדיקה',
+  inputLevel: 'עוצמת קלט המיקרופון',
+  durationOption: '{seconds, plural, one {שנייה אחת} two {שתי שניות} other {# שניות}}',
+  maxRecordingDuration: 'משך מרבי:',
+  autoStopOnSilence: 'עצירה אוטומטית',
+  silenceLength: 'שקט לפני עצירה',
+  silenceOption: 'אחרי {seconds, plural, one {שנייה אחת} other {# שניות}} של שקט',
+  speechCaptured: 'דיבור שנקלט: {voiced, duration} מתוך {required, duration}',
+  waitingForSilence:
+    'נקלט מספיק דיבור. ההקלטה תיעצר אחרי {seconds, plural, one {שנייה אחת} other {# שניות}} של שקט.',
+  startRecording: 'התחלת הקלטה',
+  stopRecording: 'עצירת הקלטה ({elapsed, duration} / {total, duration})',
+  recordingInProgress: 'הקלטה מתבצעת...',
+  recordingPaused: 'ההקלטה מושהית',
+  pauseRecording: 'השהיה',
+  resumeRecording: 'המשך',
+  recordingSegment: 'קטע {segment}',
+  requestingMicrophone: 'ממתין להרשאת מיקרופון...',
+  finalizingRecording: 'מסיים את ההקלטה...',
+
+  // Calibration
+  calibrationTitle: 'בדיקת סביבה (אופציונלי)',
+  calibrationDescription:
+    'מדדו את רעש הרקע ואת עוצמת המיקרופון לפני ההקלטה כדי לזהות מוקדם תנאים לא אמינים.',
+  runCalibration: 'בדיקת סביבה',
+  rerunCalibration: 'בדיקה חוזרת',
+  cancel: 'ביטול',
+  calibrationStaySilent: 'נא לשמור על שקט במשך {seconds, plural, one {שנייה אחת} other {# שניות}}…',
+  calibrationSayPhrase: 'כעת בקשו מהמטופל להקריא את המשפט הזה בקול:',
+  calibrationPhrase: 'השמש זרחה מעל הכפר השקט והציפורים החלו לשיר.',
+  calibrationPassed: 'תנאי ההקלטה נראים טובים.',
+  calibrationWarningTitle: 'תנאי ההקלטה יכולים להיות טובים יותר',
+  calibrationBlockedTitle: 'תנאי ההקלטה אינם מתאימים',
+  calibrationBlockedHelp: 'תקנו את הבעיות שלמעלה ובדקו שוב לפני ההקלטה.',
+  calibrationNoSpeech:
+    'לא זוהה דיבור במהלך משפט הדוגמה. ודאו שנבחר המיקרופון הנכון ושהמטופל קרוב אליו.',
+  calibrationNoisy:
+    'רעש הרקע חזק מדי. כבו מאווררים, טלוויזיות או מקורות רעש אחרים, סגרו דלתות וחלונות או עברו לחדר שקט יותר.',
+  calibrationClipping:
+    'הקול מעוות. הרחיקו את המיקרופון מהמטופל או הנמיכו את עוצמת הקלט בהגדרות הקול של המערכת.',
+  calibrationTooQuiet:
+    'הקול חלש מאוד. קרבו את המיקרופון למטופל או הגבירו את עוצמת הקלט בהגדרות הקול של המערכת.',
+  calibrationMetrics:
+    'רעש רקע {noise, number, integer} dBFS · דיבור {speech, number, integer} dBFS · יחס אות לרעש {snr, number, integer} dB · קיטוע {clipping, number, percent}',
+  noiseReducedCalibration: 'רעשי הרקע הופחתו לפי רעש החדר שנמדד בבדיקת הסביבה.',
+  noiseReducedSilence: 'רעשי הרקע הופחתו לפי השקט שלפני תחילת הדיבור.',
+  loudnessNormalized: 'העוצמה נורמלה מ-{from, number, integer} ל-{to, number, integer} LUFS.',
+
+  // Upload
+  audioUpload: 'העלאת שמע',
+  uploadInstructions: 'העלו הקלטת קול קיימת (WAV,‏ MP3,‏ M4A/AAC,‏ OGG/Opus,‏ WebM או FLAC).',
+  uploadButton: 'בחירת קובץ שמע',
+  dropZoneHint: 'גררו ושחררו לכאן קובץ שמע אחד או יותר. קבצים מרובים מנותחים בזה אחר זה.',
+  uploadQueue: 'תור העלאות',
+  queueFile: 'קובץ',
+  queueStatus: 'מצב',
+  queueProgress: 'התקדמות',
+  queueProgressLabel: 'התקדמות עבור {name}',
+  queueResult: 'תוצאה',
+  queueActions: 'פעולות',
+  queueResultSummary:
+    'ציון {score}, סיכון {risk, select, High {גבוה} Moderate {בינוני} other {נמוך}}',
+  uploadQueued: 'ממתין',
+  uploadDecoding: 'קורא קובץ',
+  uploadAnalyzing: 'מנתח',
+  uploadDone: 'הושלם',
+  uploadFailed: 'נכשל',
+  uploadCancelled: 'בוטל',
+  viewResult: 'הצג תוצאה',
+  removeFile: 'הסר',
+  fileUploaded: 'הקובץ שהועלה: {name}',
+  decodingAudio: 'קורא את קובץ השמע...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, one {מונו} =2 {סטריאו} other {# ערוצים}}',
+  sampleRateValue: '{rate, number} קילו-הרץ',
+  unknownValue: 'קצב דגימה לא ידוע',
+
+  // Review
+  reviewRecording: 'סקירת ההקלטה',
+  reviewUpload: 'סקירת השמע שהועלה',
+  reviewInstructions:
+    'האזינו לפני הניתוח. גררו את הידיות כדי לחתוך שקט או דיבור של המפעיל בתחילה ובסוף.',
+  trimStart: 'תחילת החיתוך',
+  trimEnd: 'סוף החיתוך',
+  trimRange: 'נשמר {start, number} ש׳ – {end, number} ש׳ ({length, number} ש׳)',
+  playSelection: 'נגינת הקטע הנבחר',
+  analyzeRecording: 'ניתוח',
+  reRecord: 'הקלטה מחדש',
+  chooseAnotherFile: 'בחירת קובץ אחר',
+  preprocessingTitle: 'ניקוי שמע',
+  preprocessingDescription: 'מופעל לפני הניתוח כדי שרעשי רקע ועוצמת ההקלטה לא יעוותו את המדידות.',
+  removeDcOffset: 'הסרת היסט DC',
+  highPassFilter: 'סינון רעש נמוך',
+  noiseReduction: 'הפחתת רעשי רקע',
+  loudnessNormalization: 'נרמול עוצמה',
+  loudnessTarget: 'עוצמת יעד',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: 'האזנה ל',
+  listenOriginal: 'מקור',
+  listenProcessed: 'לאחר ניקוי',
+  preparingProcessed: 'מכין את השמע לאחר ניקוי...',
+
+  // Results
+  analyzing: 'מנתח את דגימת הקול...',
+  stageDecoding: 'מפענח שמע',
+  stageQuality: 'בודק את איכות ההקלטה',
+  stagePreprocessing: 'מנקה את השמע',
+  stageVoiceActivity: 'מזהה דיבור',
+  stageAcoustic: 'מודד מאפיינים אקוסטיים',
+  stageScoring: 'מחשב ציון',
+  analysisResults: 'תוצאות הניתוח',
+  telephoneMode: 'מצב טלפון',
+  telephoneModeDescription:
+    'הקלטה זו זוהתה כשמע טלפוני צר־פס. המאפיינים נמדדו בטווח {low, number, integer}–{high, number, integer} Hz והושוו לנורמות טלפוניות.',
+  alzheimerDetected: 'זוהו סימנים של אלצהיימר',
+  alzheimerNotDetected: 'לא זוהו סימנים של אלצהיימר',
+  detectedMessage:
+    'דגימת הקול מציגה דפוסים הקשורים לירידה קוגניטיבית. מומלץ לפנות לאיש מקצוע בתחום הבריאות להערכה מלאה.',
+  notDetectedMessage: 'דגימת הקול אינה מציגה דפוסים משמעותיים הקשורים לירידה קוגניטיבית.',
+  overallScore: 'ציון קוגניטיבי כולל: {score, number}/100',
+  scoreInfo:
+    'שילוב משוקלל של כל הסמנים הביולוגיים הקוליים. ציון גבוה יותר מצביע על דפוסי דיבור קרובים יותר לאלה של אנשים בריאים.',
+  riskLevel: 'רמת סיכון: {risk, select, High {גבוהה} Moderate {בינונית} other {נמוכה}}',
+  analysisConfidence: 'מהימנות הניתוח: {confidence, number, percent}',
+  environmentCheck: 'בדיקת סביבה: {metrics}',
+  voiceBiomarkers: 'סמנים ביולוגיים קוליים',
+  biomarkersInfo:
+    'סמנים ביולוגיים הם מאפייני דיבור מדידים. כל אחד מהם תורם לציון הכולל בהתאם למשקלו.',
+  weight: 'משקל: {weight, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: 'היגוי פונמות',
+  phonemeArticulationDesc: 'דיוק בהפקת עיצורים ותנועות',
+  pauseFrequency: 'תדירות הפסקות',
+  pauseFrequencyDesc: 'באיזו תדירות הדיבור נקטע בהפסקות שקטות',
+  lexicalDiversity: 'גיוון לקסיקלי',
+  lexicalDiversityDesc: 'מגוון אוצר המילים שבשימוש',
+  speechRateConsistency: 'עקביות קצב הדיבור',
+  speechRateConsistencyDesc: 'יציבות קצב הדיבור לאורך זמן',
+  semanticCoherenceBio: 'קוהרנטיות סמנטית',
+  semanticCoherenceBioDesc: 'קשר לוגי בין רעיונות עוקבים',
+  prosodicVariation: 'שונות פרוזודית',
+  prosodicVariationDesc: 'שינוי טבעי בגובה הצליל ובאינטונציה',
+  voiceTremor: 'רעד בקול',
+  voiceTremorDesc: 'תנודות לא רצוניות בגובה הצליל ובעוצמה',
+  wordFindingDelay: 'עיכוב בשליפת מילים',
+  wordFindingDelayDesc: 'היסוסים בזמן חיפוש מילים',
+  voiceMeasurements: 'מדידות קול',
+  measurePitch:
+    'גובה צליל: {mean, number, integer} הרץ בממוצע, עם שונות של {std, number, integer} הרץ',
+  measureHnr: 'יחס הרמוניות לרעש: {value, number, integer} dB',
+  measureJitter: "ג'יטר: {value, number, percent}",
+  measureShimmer: 'שימר: {value, number, percent}',
+  rateMeasurements: 'קצב דיבור',
+  measureSpeechRate: 'קצב דיבור: {rate, number} הברות לשנייה בסך הכול',
+  measureArticulationRate: 'קצב היגוי: {rate, number} הברות לכל שניית דיבור',
+  pauseMeasurements: 'מדידות הפסקות',
+  measurePauseCount:
+    '{count, plural, =0 {אין הפסקות} one {הפסקה אחת} other {# הפסקות}}, {rate, number, integer} לדקה',
+  measurePhonation: 'מדבר/ת {ratio, number, percent} מהזמן',
+  measurePauseLength: "אורך הפסקה: {mean, number} ש' בממוצע, חציון {median, number} ש'",
+  measureLongPauses:
+    "{count, plural, =0 {אין הפסקות ארוכות} one {הפסקה ארוכה אחת} other {# הפסקות ארוכות}} ({threshold, number} ש' או יותר)",
+  measureOperatorPauses:
+    '{count, plural, one {שתיקה אחת} other {# שתיקות}} בנקודות השהיית ההקלטה, לא נספרו',
+  pauseDistribution: 'התפלגות אורכי ההפסקות',
+  pauseBin: "{from, number}–{to, number} ש'",
+  pauseBinOpen: "{from, number} ש' ומעלה",
+  recordingQuality: 'איכות ההקלטה',
+  qualityScore: 'איכות כוללת: {score, number, percent}',
+  qualitySnr: 'יחס אות לרעש: {value, number, integer} dB',
+  qualityClipping: 'קיטוע: {value, number, percent} מהדיבור',
+  qualityReverb: 'זמן הדהוד: {value, number} ש׳',
+  qualityBandwidth: 'רוחב פס: {value, number, integer} Hz',
+  qualitySpeech: 'דיבור: {value, duration}',
+  qualityDropouts:
+    '{count, plural, =0 {אין נפילות} one {נפילה אחת} two {שתי נפילות} other {# נפילות}}',
+  qualityIssueNoisy: 'רעשי הרקע חזקים ביחס לקול.',
+  qualityIssueClipping: 'הקול מעוות בגלל קיטוע.',
+  qualityIssueReverberant: 'בחדר יש הד, שמטשטש את הדיבור.',
+  qualityIssueShort: 'יש מעט דיבור למדידה.',
+  qualityIssueDropouts: 'האות נקטע במקומות מסוימים.',
+  qualityIssueNarrowband: 'לשמע רוחב פס טלפוני, ולכן חסרים פרטים בתדרים גבוהים.',
+
+  // Indicators
+  speechPatternAnalysis: 'ניתוח דפוסי דיבור',
+  speechClarity: 'בהירות הדיבור',
+  wordRecall: 'שליפת מילים',
+  sentenceStructure: 'מבנה משפטים',
+  pausePatterns: 'דפוסי הפסקות',
+  prosody: 'פרוזודיה',
+  articulationRate: 'קצב היגוי',
+  semanticCoherence: 'קוהרנטיות סמנטית',
+  notMeasured: 'לא נמדד בדגימה זו',
+
+  // Recommendations
+  recommendations: 'המלצות',
+  nextSteps: 'השלבים הבאים',
+  highRiskRecommendation:
+    'אנו ממליצים בחום לקבוע תור לנוירולוג או למרפאת זיכרון לצורך הערכה קוגניטיבית מקיפה.',
+  moderateRiskRecommendation:
+    'מומלץ לשוחח על התוצאות עם הרופא שלכם ולחזור על הבדיקה בעוד 3 עד 6 חודשים כדי לעקוב אחר שינויים.',
+  lowRiskRecommendation:
+    'אין צורך בפעולה מיידית. שמרו על אורח חיים פעיל וחזרו על הבדיקה פעם בשנה.',
+
+  // Comments
+  leaveComment: 'השאירו תגובה',
+  commentInstructions: 'שתפו אותנו במשוב על הניתוח או דווחו על בעיה.',
+  commentPlaceholder: 'כתבו את התגובה כאן...',
+  submitComment: 'שליחת תגובה',
+  commentThankYou: 'תודה על המשוב!',
+
+  // Disclaimer
+  disclaimer: 'הבהרה רפואית',
+  disclaimerText:
+    'כלי זה מיועד למטרות סינון ומחקר בלבד ואינו מספק אבחנה רפואית. יש להיוועץ תמיד באיש מקצוע מוסמך בתחום הבריאות.',
+};
+
+export default he;
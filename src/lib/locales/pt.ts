@@ -0,0 +1,281 @@
+import type { Catalog } from '@/lib/i18n';
+
+const pt: Catalog = {
+  appName: 'Rastreio de Alzheimer pela Voz',
+  appTagline: 'Rastreio precoce de Alzheimer por meio da análise da voz',
+  appDescription:
+    'Grave ou envie uma breve amostra de fala e a nossa análise procurará biomarcadores vocais e linguísticos associados ao declínio cognitivo.',
+  language: 'Idioma',
+  noLanguageFound: 'Nenhum idioma encontrado.',
+  error: 'Erro',
+  emptyRecording: 'A gravação está vazia. Tente novamente.',
+  uploadEmpty: 'O ficheiro selecionado não contém áudio.',
+  uploadUnsupportedFormat:
+    'Este tipo de ficheiro não é suportado. Escolha um ficheiro WAV, MP3, M4A/AAC, OGG/Opus, WebM ou FLAC.',
+  uploadCorrupt:
+    'Não foi possível descodificar o ficheiro. Pode estar danificado ou incompleto; tente exportá-lo novamente.',
+  uploadTooLong: 'A gravação é demasiado longa. Envie no máximo {max, duration} de áudio.',
+  uploadTooLittleSpeech:
+    'O arquivo contém muito pouca fala para ser analisado (são necessários pelo menos {required, duration}).',
+  analysisFailed: 'Não foi possível concluir a análise. Tente novamente.',
+  qualityTooLow: 'A qualidade da gravação é baixa demais para uma análise confiável.',
+  notEnoughSpeech:
+    'Não foi detetada fala suficiente para analisar ({detected, duration} encontrados, são necessários pelo menos {required, duration}). Grave novamente e fale durante mais tempo.',
+  micPermissionDeniedTitle: 'O acesso ao microfone foi bloqueado',
+  micPermissionDeniedHelp:
+    'Clique no ícone de cadeado ou de microfone na barra de endereço, permita o acesso ao microfone para este site e tente novamente. Se fechou o pedido, recarregue a página para vê-lo de novo.',
+  micNotFoundTitle: 'Nenhum microfone encontrado',
+  micNotFoundHelp:
+    'Ligue um microfone ou headset, verifique se está ativado nas definições de som do sistema e tente novamente.',
+  micBusyTitle: 'O microfone está em uso',
+  micBusyHelp:
+    'Feche outras aplicações ou separadores que possam estar a usar o microfone (videochamadas, ditado) e tente novamente.',
+  insecureContextTitle: 'A gravação requer uma ligação segura',
+  insecureContextHelp:
+    'Os navegadores só permitem o acesso ao microfone via HTTPS. Abra esta página com um endereço https:// ou envie uma gravação.',
+  recordingUnsupportedTitle: 'Este navegador não consegue gravar áudio',
+  recordingUnsupportedHelp:
+    'Use uma versão atual do Chrome, Edge, Firefox ou Safari, ou envie uma gravação existente.',
+  recordingFailedTitle: 'A gravação falhou',
+  recordingFailedHelp:
+    'Ocorreu um erro ao aceder ao microfone. Tente novamente ou envie uma gravação.',
+  retry: 'Tentar novamente',
+  useFileUpload: 'Enviar um arquivo',
+  dismiss: 'Fechar',
+
+  // Recording
+  voiceRecording: 'Gravação de voz',
+  recordingInstructions:
+    'Fale com naturalidade sobre o seu dia, descreva uma imagem ou conte uma breve história. Tente falar de forma contínua durante toda a gravação.',
+  recordingDuration: 'Duração da gravação:',
+  microphone: 'Microfone:',
+  systemDefaultMicrophone: 'Padrão do sistema',
+  microphoneNumber: 'Microfone {index}',
+  testMicrophone: 'Testar microfone',
+  stopMicrophoneTest: 'Parar teste',
+  inputLevel: 'Nível de entrada do microfone',
+  durationOption: '{seconds, plural, one {# segundo} other {# segundos}}',
+  maxRecordingDuration: 'Duração máxima:',
+  autoStopOnSilence: 'Parar automaticamente',
+  silenceLength: 'Silêncio antes de parar',
+  silenceOption: 'após {seconds, plural, one {# segundo} other {# segundos}} de silêncio',
+  speechCaptured: 'Fala captada: {voiced, duration} de {required, duration}',
+  waitingForSilence:
+    'Fala suficiente captada. A gravação para após {seconds, plural, one {# segundo} other {# segundos}} de silêncio.',
+  startRecording: 'Iniciar gravação',
+  stopRecording: 'Parar gravação ({elapsed, duration} / {total, duration})',
+  recordingInProgress: 'Gravação em andamento...',
+  recordingPaused: 'Gravação em pausa',
+  pauseRecording: 'Pausar',
+  resumeRecording: 'Retomar',
+  recordingSegment: 'Segmento {segment}',
+  requestingMicrophone: 'Aguardando a permissão do microfone...',
+  finalizingRecording: 'Finalizando a gravação...',
+
+  // Calibration
+  calibrationTitle: 'Verificação do ambiente (opcional)',
+  calibrationDescription:
+    'Meça o ruído de fundo e o nível do microfone antes de gravar para detetar cedo condições pouco fiáveis.',
+  runCalibration: 'Verificar ambiente',
+  rerunCalibration: 'Verificar novamente',
+  cancel: 'Cancelar',
+  calibrationStaySilent:
+    'Fique em silêncio durante {seconds, plural, one {# segundo} other {# segundos}}…',
+  calibrationSayPhrase: 'Agora peça ao paciente que leia esta frase em voz alta:',
+  calibrationPhrase: 'O sol nasceu sobre a aldeia tranquila e os pássaros começaram a cantar.',
+  calibrationPassed: 'As condições de gravação estão boas.',
+  calibrationWarningTitle: 'As condições de gravação podiam ser melhores',
+  calibrationBlockedTitle: 'As condições de gravação não são adequadas',
+  calibrationBlockedHelp: 'Corrija os problemas acima e verifique novamente antes de gravar.',
+  calibrationNoSpeech:
+    'Não foi detetada fala durante a frase de teste. Verifique se o microfone correto está selecionado e se o paciente está perto dele.',
+  calibrationNoisy:
+    'Há demasiado ruído de fundo. Desligue ventoinhas, televisores ou outras fontes de ruído, feche portas e janelas ou mude para uma sala mais silenciosa.',
+  calibrationClipping:
+    'A voz está a distorcer. Afaste o microfone do paciente ou baixe o volume de entrada nas definições de som do sistema.',
+  calibrationTooQuiet:
+    'A voz está muito baixa. Aproxime o microfone do paciente ou aumente o volume de entrada nas definições de som do sistema.',
+  calibrationMetrics:
+    'Ruído de fundo {noise, number, integer} dBFS · Voz {speech, number, integer} dBFS · SNR {snr, number, integer} dB · Saturação {clipping, number, percent}',
+  noiseReducedCalibration:
+    'O ruído de fundo foi reduzido com base no ruído ambiente medido durante a verificação do ambiente.',
+  noiseReducedSilence:
+    'O ruído de fundo foi reduzido com base no silêncio antes do início da fala.',
+  loudnessNormalized:
+    'O volume foi normalizado de {from, number, integer} para {to, number, integer} LUFS.',
+
+  // Upload
+  audioUpload: 'Envio de áudio',
+  uploadInstructions:
+    'Envie uma gravação de voz existente (WAV, MP3, M4A/AAC, OGG/Opus, WebM ou FLAC).',
+  uploadButton: 'Escolher arquivo de áudio',
+  dropZoneHint:
+    'Arraste e solte aqui um ou mais arquivos de áudio. Vários arquivos são analisados um após o outro.',
+  uploadQueue: 'Fila de envio',
+  queueFile: 'Arquivo',
+  queueStatus: 'Status',
+  queueProgress: 'Progresso',
+  queueProgressLabel: 'Progresso de {name}',
+  queueResult: 'Resultado',
+  queueActions: 'Ações',
+  queueResultSummary:
+    'Pontuação {score}, risco {risk, select, High {alto} Moderate {moderado} other {baixo}}',
+  uploadQueued: 'Aguardando',
+  uploadDecoding: 'Lendo arquivo',
+  uploadAnalyzing: 'Analisando',
+  uploadDone: 'Concluído',
+  uploadFailed: 'Falhou',
+  uploadCancelled: 'Cancelado',
+  viewResult: 'Ver resultado',
+  removeFile: 'Remover',
+  fileUploaded: 'Arquivo enviado: {name}',
+  decodingAudio: 'A ler ficheiro de áudio...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, one {mono} =2 {estéreo} other {# canais}}',
+  sampleRateValue: '{rate, number} kHz',
+  unknownValue: 'taxa de amostragem desconhecida',
+
+  // Review
+  reviewRecording: 'Rever gravação',
+  reviewUpload: 'Rever áudio enviado',
+  reviewInstructions:
+    'Ouça antes de analisar. Arraste os controlos para cortar o silêncio ou a fala do operador no início e no fim.',
+  trimStart: 'Início do corte',
+  trimEnd: 'Fim do corte',
+  trimRange: 'A manter {start, number} s – {end, number} s ({length, number} s)',
+  playSelection: 'Reproduzir seleção',
+  analyzeRecording: 'Analisar',
+  reRecord: 'Gravar novamente',
+  chooseAnotherFile: 'Escolher outro ficheiro',
+  preprocessingTitle: 'Limpeza do áudio',
+  preprocessingDescription:
+    'Aplicada antes da análise para que o ruído de fundo e o nível de gravação não distorçam as medições.',
+  removeDcOffset: 'Remover o deslocamento CC',
+  highPassFilter: 'Filtrar ruído grave',
+  noiseReduction: 'Reduzir o ruído de fundo',
+  loudnessNormalization: 'Normalizar o volume',
+  loudnessTarget: 'Volume alvo',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: 'Ouvir',
+  listenOriginal: 'Original',
+  listenProcessed: 'Limpo',
+  preparingProcessed: 'A preparar o áudio limpo...',
+
+  // Results
+  analyzing: 'Analisando a amostra de voz...',
+  stageDecoding: 'Decodificando áudio',
+  stageQuality: 'Verificando a qualidade da gravação',
+  stagePreprocessing: 'Limpando o áudio',
+  stageVoiceActivity: 'Detectando fala',
+  stageAcoustic: 'Medindo características acústicas',
+  stageScoring: 'Calculando a pontuação',
+  analysisResults: 'Resultados da análise',
+  telephoneMode: 'Modo telefone',
+  telephoneModeDescription:
+    'Esta gravação foi identificada como áudio telefônico de banda estreita. As características foram medidas entre {low, number, integer} e {high, number, integer} Hz e comparadas com normas telefônicas.',
+  alzheimerDetected: 'Sinais de Alzheimer detectados',
+  alzheimerNotDetected: 'Nenhum sinal de Alzheimer detectado',
+  detectedMessage:
+    'A amostra de voz apresenta padrões associados ao declínio cognitivo. Consulte um profissional de saúde para uma avaliação completa.',
+  notDetectedMessage:
+    'A amostra de voz não apresenta padrões significativos associados ao declínio cognitivo.',
+  overallScore: 'Pontuação cognitiva geral: {score, number}/100',
+  scoreInfo:
+    'Combinação ponderada de todos os biomarcadores de voz. Pontuações mais altas indicam padrões de fala mais próximos dos de controles saudáveis.',
+  riskLevel: 'Nível de risco: {risk, select, High {alto} Moderate {moderado} other {baixo}}',
+  analysisConfidence: 'Confiança da análise: {confidence, number, percent}',
+  environmentCheck: 'Verificação do ambiente: {metrics}',
+  voiceBiomarkers: 'Biomarcadores de voz',
+  biomarkersInfo:
+    'Biomarcadores são características mensuráveis da fala. Cada um contribui para a pontuação geral de acordo com o seu peso.',
+  weight: 'Peso: {weight, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: 'Articulação de fonemas',
+  phonemeArticulationDesc: 'Precisão na produção de consoantes e vogais',
+  pauseFrequency: 'Frequência de pausas',
+  pauseFrequencyDesc: 'Com que frequência a fala é interrompida por pausas silenciosas',
+  lexicalDiversity: 'Diversidade lexical',
+  lexicalDiversityDesc: 'Variedade do vocabulário utilizado',
+  speechRateConsistency: 'Constância da velocidade de fala',
+  speechRateConsistencyDesc: 'Estabilidade do ritmo de fala ao longo do tempo',
+  semanticCoherenceBio: 'Coerência semântica',
+  semanticCoherenceBioDesc: 'Ligação lógica entre ideias consecutivas',
+  prosodicVariation: 'Variação prosódica',
+  prosodicVariationDesc: 'Variação natural de tom e entonação',
+  voiceTremor: 'Tremor vocal',
+  voiceTremorDesc: 'Flutuação involuntária de tom e volume',
+  wordFindingDelay: 'Atraso na evocação de palavras',
+  wordFindingDelayDesc: 'Hesitações ao procurar palavras',
+  voiceMeasurements: 'Medições da voz',
+  measurePitch:
+    'Tom: {mean, number, integer} Hz em média, com variação de {std, number, integer} Hz',
+  measureHnr: 'Relação harmônico-ruído: {value, number, integer} dB',
+  measureJitter: 'Jitter: {value, number, percent}',
+  measureShimmer: 'Shimmer: {value, number, percent}',
+  rateMeasurements: 'Velocidade da fala',
+  measureSpeechRate: 'Velocidade da fala: {rate, number} sílabas por segundo no total',
+  measureArticulationRate: 'Taxa de articulação: {rate, number} sílabas por segundo de fala',
+  pauseMeasurements: 'Medições de pausas',
+  measurePauseCount:
+    '{count, plural, =0 {Nenhuma pausa} one {# pausa} other {# pausas}}, {rate, number, integer} por minuto',
+  measurePhonation: 'Falando {ratio, number, percent} do tempo',
+  measurePauseLength: 'Duração das pausas: {mean, number} s em média, mediana {median, number} s',
+  measureLongPauses:
+    '{count, plural, =0 {Nenhuma pausa longa} one {# pausa longa} other {# pausas longas}} ({threshold, number} s ou mais)',
+  measureOperatorPauses:
+    '{count, plural, one {# silêncio} other {# silêncios}} onde a gravação foi pausada, não contados',
+  pauseDistribution: 'Distribuição da duração das pausas',
+  pauseBin: '{from, number}–{to, number} s',
+  pauseBinOpen: '{from, number} s ou mais',
+  recordingQuality: 'Qualidade da gravação',
+  qualityScore: 'Qualidade geral: {score, number, percent}',
+  qualitySnr: 'Relação sinal/ruído: {value, number, integer} dB',
+  qualityClipping: 'Saturação: {value, number, percent} da fala',
+  qualityReverb: 'Tempo de reverberação: {value, number} s',
+  qualityBandwidth: 'Largura de banda: {value, number, integer} Hz',
+  qualitySpeech: 'Fala: {value, duration}',
+  qualityDropouts: '{count, plural, =0 {Sem cortes} one {# corte} other {# cortes}}',
+  qualityIssueNoisy: 'O ruído de fundo está alto em relação à voz.',
+  qualityIssueClipping: 'A voz está distorcida por saturação.',
+  qualityIssueReverberant: 'A sala tem eco, o que borra a fala.',
+  qualityIssueShort: 'Há pouca fala para medir.',
+  qualityIssueDropouts: 'O sinal falha em alguns pontos.',
+  qualityIssueNarrowband:
+    'O áudio tem largura de banda de telefone, então faltam detalhes de alta frequência.',
+
+  // Indicators
+  speechPatternAnalysis: 'Análise dos padrões de fala',
+  speechClarity: 'Clareza da fala',
+  wordRecall: 'Evocação de palavras',
+  sentenceStructure: 'Estrutura das frases',
+  pausePatterns: 'Padrões de pausas',
+  prosody: 'Prosódia',
+  articulationRate: 'Taxa de articulação',
+  semanticCoherence: 'Coerência semântica',
+  notMeasured: 'Não medido nesta amostra',
+
+  // Recommendations
+  recommendations: 'Recomendações',
+  nextSteps: 'Próximos passos',
+  highRiskRecommendation:
+    'Recomendamos vivamente agendar uma consulta com um neurologista ou uma clínica de memória para uma avaliação cognitiva completa.',
+  moderateRiskRecommendation:
+    'Considere conversar sobre estes resultados com o seu médico e repetir o rastreio dentro de 3 a 6 meses para acompanhar a evolução.',
+  lowRiskRecommendation:
+    'Nenhuma ação imediata é necessária. Mantenha um estilo de vida ativo e repita o rastreio uma vez por ano.',
+
+  // Comments
+  leaveComment: 'Deixe um comentário',
+  commentInstructions: 'Partilhe a sua opinião sobre a análise ou relate um problema.',
+  commentPlaceholder: 'Escreva o seu comentário aqui...',
+  submitComment: 'Enviar comentário',
+  commentThankYou: 'Obrigado pelo seu feedback!',
+
+  // Disclaimer
+  disclaimer: 'Aviso médico',
+  disclaimerText:
+    'Esta ferramenta destina-se apenas a fins de rastreio e investigação e não fornece um diagnóstico médico. Consulte sempre um profissional de saúde qualificado.',
+};
+
+export default pt;
@@ -0,0 +1,280 @@
+import type { Catalog } from '@/lib/i18n';
+
+const ur: Catalog = {
+  appName: 'آواز کے ذریعے الزائمر کی جانچ',
+  appTagline: 'آواز کے تجزیے سے الزائمر کی ابتدائی تشخیص',
+  appDescription:
+    'بولنے کا ایک مختصر نمونہ ریکارڈ یا اپ لوڈ کریں، ہمارا تجزیہ ذہنی صلاحیت میں کمی سے منسلک آواز اور زبان کے حیاتیاتی نشانات تلاش کرے گا۔',
+  language: 'زبان',
+  noLanguageFound: 'کوئی زبان نہیں ملی۔',
+  error: 'خرابی',
+  emptyRecording: 'ریکارڈنگ خالی ہے۔ براہ کرم دوبارہ کوشش کریں۔',
+  uploadEmpty: 'منتخب فائل میں کوئی آڈیو نہیں ہے۔',
+  uploadUnsupportedFormat:
+    'یہ فائل کی قسم معاون نہیں ہے۔ براہِ کرم WAV، MP3، M4A/AAC، OGG/Opus، WebM یا FLAC فائل منتخب کریں۔',
+  uploadCorrupt:
+    'فائل ڈی کوڈ نہیں ہو سکی۔ ہو سکتا ہے یہ خراب یا نامکمل ہو؛ اسے دوبارہ ایکسپورٹ کر کے دیکھیں۔',
+  uploadTooLong:
+    'ریکارڈنگ بہت لمبی ہے۔ براہِ کرم زیادہ سے زیادہ {max, duration} کی آڈیو اپ لوڈ کریں۔',
+  uploadTooLittleSpeech:
+    'فائل میں تجزیے کے لیے بہت کم گفتگو ہے (کم از کم {required, duration} درکار ہے)۔',
+  analysisFailed: 'تجزیہ مکمل نہیں ہو سکا۔ براہ کرم دوبارہ کوشش کریں۔',
+  qualityTooLow: 'ریکارڈنگ کا معیار قابلِ اعتماد تجزیے کے لیے بہت کم ہے۔',
+  notEnoughSpeech:
+    'تجزیے کے لیے کافی گفتگو نہیں ملی ({detected, duration} ملی، کم از کم {required, duration} درکار ہے)۔ براہِ کرم دوبارہ ریکارڈ کریں اور زیادہ دیر بات کریں۔',
+  micPermissionDeniedTitle: 'مائیکروفون تک رسائی روک دی گئی',
+  micPermissionDeniedHelp:
+    'ایڈریس بار میں تالے یا مائیکروفون کے آئیکن پر کلک کریں، اس سائٹ کو مائیکروفون کی اجازت دیں اور دوبارہ کوشش کریں۔ اگر آپ نے درخواست بند کر دی تھی تو صفحہ دوبارہ لوڈ کریں۔',
+  micNotFoundTitle: 'کوئی مائیکروفون نہیں ملا',
+  micNotFoundHelp:
+    'مائیکروفون یا ہیڈسیٹ لگائیں، سسٹم کی آواز کی ترتیبات میں اسے فعال کریں اور دوبارہ کوشش کریں۔',
+  micBusyTitle: 'مائیکروفون استعمال میں ہے',
+  micBusyHelp:
+    'دیگر ایپلیکیشنز یا ٹیب بند کریں جو مائیکروفون استعمال کر رہے ہوں (ویڈیو کال، ڈکٹیشن) اور دوبارہ کوشش کریں۔',
+  insecureContextTitle: 'ریکارڈنگ کے لیے محفوظ کنکشن ضروری ہے',
+  insecureContextHelp:
+    'براؤزر صرف HTTPS پر مائیکروفون کی اجازت دیتے ہیں۔ یہ صفحہ https:// پتے سے کھولیں یا اس کے بجائے ریکارڈنگ اپ لوڈ کریں۔',
+  recordingUnsupportedTitle: 'یہ براؤزر آواز ریکارڈ نہیں کر سکتا',
+  recordingUnsupportedHelp:
+    'Chrome، Edge، Firefox یا Safari کا تازہ ورژن استعمال کریں، یا اس کے بجائے موجودہ ریکارڈنگ اپ لوڈ کریں۔',
+  recordingFailedTitle: 'ریکارڈنگ ناکام ہو گئی',
+  recordingFailedHelp:
+    'مائیکروفون تک رسائی میں خرابی ہوئی۔ دوبارہ کوشش کریں یا اس کے بجائے ریکارڈنگ اپ لوڈ کریں۔',
+  retry: 'دوبارہ کوشش کریں',
+  useFileUpload: 'اس کے بجائے فائل اپ لوڈ کریں',
+  dismiss: 'بند کریں',
+
+  // Recording
+  voiceRecording: 'آواز کی ریکارڈنگ',
+  recordingInstructions:
+    'اپنے دن کے بارے میں قدرتی انداز میں بات کریں، کسی تصویر کی وضاحت کریں یا کوئی مختصر کہانی سنائیں۔ پوری ریکارڈنگ کے دوران مسلسل بولنے کی کوشش کریں۔',
+  recordingDuration: 'ریکارڈنگ کا دورانیہ:',
+  microphone: 'مائیکروفون:',
+  systemDefaultMicrophone: 'سسٹم کا طے شدہ',
+  microphoneNumber: 'مائیکروفون {index}',
+  testMicrophone: 'مائیکروفون جانچیں',
+  stopMicrophoneTest: 'جانچ روکیں',
+  inputLevel: 'مائیکروفون ان پٹ کی سطح',
+  durationOption: '{seconds, plural, one {# سیکنڈ} other {# سیکنڈ}}',
+  maxRecordingDuration: 'زیادہ سے زیادہ دورانیہ:',
+  autoStopOnSilence: 'خودکار طور پر روکیں',
+  silenceLength: 'رکنے سے پہلے خاموشی',
+  silenceOption: '{seconds, plural, one {# سیکنڈ} other {# سیکنڈ}} خاموشی کے بعد',
+  speechCaptured: 'ریکارڈ شدہ گفتگو: {required, duration} میں سے {voiced, duration}',
+  waitingForSilence:
+    'کافی گفتگو ریکارڈ ہو گئی۔ {seconds, plural, one {# سیکنڈ} other {# سیکنڈ}} خاموشی کے بعد ریکارڈنگ رک جائے گی۔',
+  startRecording: 'ریکارڈنگ شروع کریں',
+  stopRecording: 'ریکارڈنگ روکیں ({elapsed, duration} / {total, duration})',
+  recordingInProgress: 'ریکارڈنگ جاری ہے...',
+  recordingPaused: 'ریکارڈنگ رکی ہوئی ہے',
+  pauseRecording: 'روکیں',
+  resumeRecording: 'جاری رکھیں',
+  recordingSegment: 'حصہ {segment}',
+  requestingMicrophone: 'مائیکروفون کی اجازت کا انتظار ہے...',
+  finalizingRecording: 'ریکارڈنگ مکمل کی جا رہی ہے...',
+
+  // Calibration
+  calibrationTitle: 'ماحول کی جانچ (اختیاری)',
+  calibrationDescription:
+    'ریکارڈنگ سے پہلے پس منظر کا شور اور مائیکروفون کی سطح ناپیں تاکہ ناقابلِ اعتماد حالات جلد معلوم ہو جائیں۔',
+  runCalibration: 'ماحول جانچیں',
+  rerunCalibration: 'دوبارہ جانچیں',
+  cancel: 'منسوخ کریں',
+  calibrationStaySilent:
+    'براہِ کرم {seconds, plural, one {# سیکنڈ} other {# سیکنڈ}} تک خاموش رہیں…',
+  calibrationSayPhrase: 'اب مریض سے یہ جملہ بلند آواز میں پڑھنے کو کہیں:',
+  calibrationPhrase: 'پُرسکون گاؤں پر سورج طلوع ہوا اور پرندے گانے لگے۔',
+  calibrationPassed: 'ریکارڈنگ کے حالات اچھے ہیں۔',
+  calibrationWarningTitle: 'ریکارڈنگ کے حالات بہتر ہو سکتے ہیں',
+  calibrationBlockedTitle: 'ریکارڈنگ کے حالات موزوں نہیں ہیں',
+  calibrationBlockedHelp: 'ریکارڈنگ سے پہلے اوپر دیے گئے مسائل حل کریں اور دوبارہ جانچیں۔',
+  calibrationNoSpeech:
+    'نمونہ جملے کے دوران کوئی آواز نہیں ملی۔ یقینی بنائیں کہ درست مائیکروفون منتخب ہے اور مریض اس کے قریب ہے۔',
+  calibrationNoisy:
+    'پس منظر میں بہت زیادہ شور ہے۔ پنکھے، ٹی وی یا شور کے دیگر ذرائع بند کریں، دروازے اور کھڑکیاں بند کریں یا کسی پُرسکون کمرے میں جائیں۔',
+  calibrationClipping:
+    'آواز بگڑ رہی ہے۔ مائیکروفون کو مریض سے دور کریں یا سسٹم کی آواز کی ترتیبات میں ان پٹ والیوم کم کریں۔',
+  calibrationTooQuiet:
+    'آواز بہت دھیمی ہے۔ مائیکروفون کو مریض کے قریب کریں یا سسٹم کی آواز کی ترتیبات میں ان پٹ والیوم بڑھائیں۔',
+  calibrationMetrics:
+    'پس منظر کا شور {noise, number, integer} dBFS · آواز {speech, number, integer} dBFS · SNR {snr, number, integer} dB · کلپنگ {clipping, number, percent}',
+  noiseReducedCalibration:
+    'ماحول کی جانچ کے دوران ناپے گئے کمرے کے شور کی مدد سے پس منظر کا شور کم کیا گیا۔',
+  noiseReducedSilence: 'بولنے سے پہلے کی خاموشی کی مدد سے پس منظر کا شور کم کیا گیا۔',
+  loudnessNormalized:
+    'آواز کی بلندی {from, number, integer} سے {to, number, integer} LUFS پر لائی گئی۔',
+
+  // Upload
+  audioUpload: 'آڈیو اپ لوڈ',
+  uploadInstructions:
+    'آواز کی موجودہ ریکارڈنگ اپ لوڈ کریں (WAV، MP3، M4A/AAC، OGG/Opus، WebM یا FLAC)۔',
+  uploadButton: 'آڈیو فائل منتخب کریں',
+  dropZoneHint:
+    'ایک یا زیادہ آڈیو فائلیں یہاں گھسیٹ کر چھوڑیں۔ متعدد فائلوں کا تجزیہ ایک کے بعد ایک کیا جاتا ہے۔',
+  uploadQueue: 'اپ لوڈ قطار',
+  queueFile: 'فائل',
+  queueStatus: 'حالت',
+  queueProgress: 'پیش رفت',
+  queueProgressLabel: '{name} کی پیش رفت',
+  queueResult: 'نتیجہ',
+  queueActions: 'اقدامات',
+  queueResultSummary:
+    'اسکور {score}، خطرہ {risk, select, High {زیادہ} Moderate {درمیانی} other {کم}}',
+  uploadQueued: 'منتظر',
+  uploadDecoding: 'فائل پڑھی جا رہی ہے',
+  uploadAnalyzing: 'تجزیہ جاری ہے',
+  uploadDone: 'مکمل',
+  uploadFailed: 'ناکام',
+  uploadCancelled: 'منسوخ',
+  viewResult: 'نتیجہ دیکھیں',
+  removeFile: 'ہٹائیں',
+  fileUploaded: 'اپ لوڈ شدہ فائل: {name}',
+  decodingAudio: 'آڈیو فائل پڑھی جا رہی ہے...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, one {مونو} =2 {سٹیریو} other {# چینل}}',
+  sampleRateValue: '{rate, number} kHz',
+  unknownValue: 'نامعلوم سیمپل ریٹ',
+
+  // Review
+  reviewRecording: 'ریکارڈنگ کا جائزہ',
+  reviewUpload: 'اپ لوڈ کردہ آڈیو کا جائزہ',
+  reviewInstructions:
+    'تجزیے سے پہلے سن لیں۔ شروع اور آخر میں خاموشی یا آپریٹر کی گفتگو کاٹنے کے لیے ہینڈل کھینچیں۔',
+  trimStart: 'کٹائی کا آغاز',
+  trimEnd: 'کٹائی کا اختتام',
+  trimRange: 'محفوظ: {start, number} سیکنڈ – {end, number} سیکنڈ ({length, number} سیکنڈ)',
+  playSelection: 'منتخب حصہ چلائیں',
+  analyzeRecording: 'تجزیہ کریں',
+  reRecord: 'دوبارہ ریکارڈ کریں',
+  chooseAnotherFile: 'دوسری فائل منتخب کریں',
+  preprocessingTitle: 'آڈیو کی صفائی',
+  preprocessingDescription:
+    'تجزیے سے پہلے لاگو کی جاتی ہے تاکہ پس منظر کا شور اور ریکارڈنگ کی سطح پیمائشوں کو متاثر نہ کریں۔',
+  removeDcOffset: 'ڈی سی آفسیٹ ہٹائیں',
+  highPassFilter: 'کم فریکوئنسی گڑگڑاہٹ فلٹر کریں',
+  noiseReduction: 'پس منظر کا شور کم کریں',
+  loudnessNormalization: 'آواز کی بلندی معمول پر لائیں',
+  loudnessTarget: 'ہدف بلندی',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: 'سنیں',
+  listenOriginal: 'اصل',
+  listenProcessed: 'صاف شدہ',
+  preparingProcessed: 'صاف شدہ آڈیو تیار ہو رہا ہے...',
+
+  // Results
+  analyzing: 'آواز کے نمونے کا تجزیہ ہو رہا ہے...',
+  stageDecoding: 'آڈیو ڈی کوڈ ہو رہا ہے',
+  stageQuality: 'ریکارڈنگ کا معیار جانچا جا رہا ہے',
+  stagePreprocessing: 'آڈیو صاف کی جا رہی ہے',
+  stageVoiceActivity: 'گفتگو کی شناخت ہو رہی ہے',
+  stageAcoustic: 'صوتی خصوصیات کی پیمائش ہو رہی ہے',
+  stageScoring: 'اسکور کا حساب ہو رہا ہے',
+  analysisResults: 'تجزیے کے نتائج',
+  telephoneMode: 'ٹیلی فون موڈ',
+  telephoneModeDescription:
+    'اس ریکارڈنگ کو تنگ بینڈ ٹیلی فون آڈیو کے طور پر پہچانا گیا۔ خصوصیات {low, number, integer}–{high, number, integer} Hz کے اندر ناپی گئیں اور ٹیلی فون معیارات سے موازنہ کی گئیں۔',
+  alzheimerDetected: 'الزائمر کی علامات پائی گئیں',
+  alzheimerNotDetected: 'الزائمر کی کوئی علامت نہیں پائی گئی',
+  detectedMessage:
+    'آواز کے نمونے میں ذہنی صلاحیت میں کمی سے منسلک انداز پائے گئے ہیں۔ مکمل جانچ کے لیے براہ کرم کسی طبی ماہر سے رجوع کریں۔',
+  notDetectedMessage: 'آواز کے نمونے میں ذہنی صلاحیت میں کمی سے منسلک کوئی نمایاں انداز نہیں پائے گئے۔',
+  overallScore: 'مجموعی ذہنی اسکور: {score, number}/100',
+  scoreInfo:
+    'آواز کے تمام حیاتیاتی نشانات کا وزنی مجموعہ۔ زیادہ اسکور کا مطلب ہے کہ بولنے کا انداز صحت مند افراد کے قریب ہے۔',
+  riskLevel: 'خطرے کی سطح: {risk, select, High {زیادہ} Moderate {درمیانی} other {کم}}',
+  analysisConfidence: 'تجزیے کا اعتماد: {confidence, number, percent}',
+  environmentCheck: 'ماحول کی جانچ: {metrics}',
+  voiceBiomarkers: 'آواز کے حیاتیاتی نشانات',
+  biomarkersInfo:
+    'حیاتیاتی نشانات بولنے کی قابلِ پیمائش خصوصیات ہیں۔ ہر ایک اپنے وزن کے مطابق مجموعی اسکور میں حصہ ڈالتا ہے۔',
+  weight: 'وزن: {weight, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: 'آوازوں کی ادائیگی',
+  phonemeArticulationDesc: 'حروفِ صحیح اور حروفِ علت کی ادائیگی کی درستی',
+  pauseFrequency: 'وقفوں کی تعداد',
+  pauseFrequencyDesc: 'بات کتنی بار خاموش وقفوں سے ٹوٹتی ہے',
+  lexicalDiversity: 'ذخیرۂ الفاظ کا تنوع',
+  lexicalDiversityDesc: 'استعمال ہونے والے الفاظ کی رنگا رنگی',
+  speechRateConsistency: 'بولنے کی رفتار میں یکسانیت',
+  speechRateConsistencyDesc: 'وقت کے ساتھ بولنے کی رفتار کا استحکام',
+  semanticCoherenceBio: 'معنوی ربط',
+  semanticCoherenceBioDesc: 'لگاتار خیالات کے درمیان منطقی تعلق',
+  prosodicVariation: 'لہجے کا اتار چڑھاؤ',
+  prosodicVariationDesc: 'آواز کی بلندی اور لہجے میں قدرتی تبدیلی',
+  voiceTremor: 'آواز میں لرزش',
+  voiceTremorDesc: 'آواز کی بلندی اور شدت میں غیر ارادی اتار چڑھاؤ',
+  wordFindingDelay: 'الفاظ ڈھونڈنے میں تاخیر',
+  wordFindingDelayDesc: 'الفاظ تلاش کرتے وقت ہچکچاہٹ',
+  voiceMeasurements: 'آواز کی پیمائشیں',
+  measurePitch:
+    'پچ: اوسطاً {mean, number, integer} ہرٹز، {std, number, integer} ہرٹز کے اتار چڑھاؤ کے ساتھ',
+  measureHnr: 'ہارمونکس سے شور کا تناسب: {value, number, integer} ڈیسی بیل',
+  measureJitter: 'جِٹر: {value, number, percent}',
+  measureShimmer: 'شِمر: {value, number, percent}',
+  rateMeasurements: 'بولنے کی رفتار',
+  measureSpeechRate: 'گفتگو کی رفتار: مجموعی طور پر {rate, number} ہجے فی سیکنڈ',
+  measureArticulationRate: 'ادائیگی کی رفتار: گفتگو کے ہر سیکنڈ میں {rate, number} ہجے',
+  pauseMeasurements: 'وقفوں کی پیمائشیں',
+  measurePauseCount:
+    '{count, plural, =0 {کوئی وقفہ نہیں} one {# وقفہ} other {# وقفے}}، {rate, number, integer} فی منٹ',
+  measurePhonation: '{ratio, number, percent} وقت گفتگو',
+  measurePauseLength: 'وقفے کی طوالت: اوسطاً {mean, number} سیکنڈ، وسطانیہ {median, number} سیکنڈ',
+  measureLongPauses:
+    '{count, plural, =0 {کوئی طویل وقفہ نہیں} one {# طویل وقفہ} other {# طویل وقفے}} ({threshold, number} سیکنڈ یا زیادہ)',
+  measureOperatorPauses:
+    'ریکارڈنگ روکنے کی جگہوں پر {count, plural, one {# خاموشی} other {# خاموشیاں}}، شمار نہیں کی گئیں',
+  pauseDistribution: 'وقفوں کی طوالت کی تقسیم',
+  pauseBin: '{from, number}–{to, number} سیکنڈ',
+  pauseBinOpen: '{from, number} سیکنڈ یا زیادہ',
+  recordingQuality: 'ریکارڈنگ کا معیار',
+  qualityScore: 'مجموعی معیار: {score, number, percent}',
+  qualitySnr: 'سگنل ٹو نوائز تناسب: {value, number, integer} dB',
+  qualityClipping: 'کلپنگ: گفتگو کا {value, number, percent}',
+  qualityReverb: 'گونج کا وقت: {value, number} سیکنڈ',
+  qualityBandwidth: 'بینڈوڈتھ: {value, number, integer} Hz',
+  qualitySpeech: 'گفتگو: {value, duration}',
+  qualityDropouts: '{count, plural, =0 {کوئی تعطل نہیں} one {# تعطل} other {# تعطل}}',
+  qualityIssueNoisy: 'آواز کے مقابلے میں پس منظر کا شور زیادہ ہے۔',
+  qualityIssueClipping: 'کلپنگ کی وجہ سے آواز بگڑی ہوئی ہے۔',
+  qualityIssueReverberant: 'کمرے میں گونج ہے جس سے گفتگو دھندلا جاتی ہے۔',
+  qualityIssueShort: 'پیمائش کے لیے گفتگو کم ہے۔',
+  qualityIssueDropouts: 'سگنل کچھ جگہوں پر منقطع ہو جاتا ہے۔',
+  qualityIssueNarrowband:
+    'آڈیو کی بینڈوڈتھ ٹیلی فون جیسی ہے، اس لیے اونچی فریکوئنسی کی تفصیل موجود نہیں۔',
+
+  // Indicators
+  speechPatternAnalysis: 'بولنے کے انداز کا تجزیہ',
+  speechClarity: 'بات کی وضاحت',
+  wordRecall: 'الفاظ یاد کرنا',
+  sentenceStructure: 'جملوں کی ساخت',
+  pausePatterns: 'وقفوں کا انداز',
+  prosody: 'لہجہ',
+  articulationRate: 'ادائیگی کی رفتار',
+  semanticCoherence: 'معنوی ربط',
+  notMeasured: 'اس نمونے میں پیمائش نہیں ہوئی',
+
+  // Recommendations
+  recommendations: 'سفارشات',
+  nextSteps: 'اگلے اقدامات',
+  highRiskRecommendation:
+    'ہم پُرزور سفارش کرتے ہیں کہ مکمل ذہنی جانچ کے لیے کسی نیورولوجسٹ یا میموری کلینک سے وقت لیں۔',
+  moderateRiskRecommendation:
+    'ان نتائج پر اپنے ڈاکٹر سے بات کریں اور تبدیلیوں پر نظر رکھنے کے لیے 3 سے 6 ماہ بعد دوبارہ جانچ کریں۔',
+  lowRiskRecommendation:
+    'فوری طور پر کسی اقدام کی ضرورت نہیں۔ متحرک طرزِ زندگی اپنائیں اور سال میں ایک بار جانچ دہرائیں۔',
+
+  // Comments
+  leaveComment: 'تبصرہ کریں',
+  commentInstructions: 'تجزیے کے بارے میں اپنی رائے دیں یا کسی مسئلے کی اطلاع دیں۔',
+  commentPlaceholder: 'اپنا تبصرہ یہاں لکھیں...',
+  submitComment: 'تبصرہ بھیجیں',
+  commentThankYou: 'آپ کی رائے کا شکریہ!',
+
+  // Disclaimer
+  disclaimer: 'طبی دستبرداری',
+  disclaimerText:
+    'یہ ٹول صرف جانچ اور تحقیق کے مقاصد کے لیے ہے اور طبی تشخیص فراہم نہیں کرتا۔ ہمیشہ کسی مستند طبی ماہر سے مشورہ کریں۔',
+};
+
+export default ur;
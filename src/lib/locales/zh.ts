@@ -0,0 +1,242 @@
+import type { Catalog } from '@/lib/i18n';
+
+const zh: Catalog = {
+  appName: '阿尔茨海默病语音筛查',
+  appTagline: '通过语音分析早期筛查阿尔茨海默病',
+  appDescription: '录制或上传一段简短的语音样本，我们的分析将查找与认知衰退相关的语音和语言生物标志物。',
+  language: '语言',
+  noLanguageFound: '未找到语言。',
+  error: '错误',
+  emptyRecording: '录音为空，请重试。',
+  uploadEmpty: '所选文件不包含音频。',
+  uploadUnsupportedFormat: '不支持此文件类型。请选择 WAV、MP3、M4A/AAC、OGG/Opus、WebM 或 FLAC 文件。',
+  uploadCorrupt: '无法解码该文件。文件可能已损坏或不完整，请尝试重新导出。',
+  uploadTooLong: '录音过长。请上传不超过 {max, duration} 的音频。',
+  uploadTooLittleSpeech: '文件中的语音太少，无法分析（至少需要 {required, duration}）。',
+  analysisFailed: '无法完成分析。请重试。',
+  qualityTooLow: '录音质量过低，无法可靠分析。',
+  notEnoughSpeech:
+    '检测到的语音不足，无法分析（检测到 {detected, duration}，至少需要 {required, duration}）。请重新录制并持续讲话更长时间。',
+  micPermissionDeniedTitle: '麦克风访问被阻止',
+  micPermissionDeniedHelp: '点击地址栏中的锁形或麦克风图标，允许此网站使用麦克风，然后重试。如果您关闭了提示，重新加载页面即可再次显示。',
+  micNotFoundTitle: '未找到麦克风',
+  micNotFoundHelp: '请连接麦克风或耳机，确认已在系统声音设置中启用，然后重试。',
+  micBusyTitle: '麦克风正被占用',
+  micBusyHelp: '请关闭可能正在使用麦克风的其他应用或浏览器标签页（视频通话、听写等），然后重试。',
+  insecureContextTitle: '录音需要安全连接',
+  insecureContextHelp: '浏览器仅允许通过 HTTPS 访问麦克风。请使用 https:// 地址打开此页面，或改为上传录音。',
+  recordingUnsupportedTitle: '此浏览器无法录音',
+  recordingUnsupportedHelp: '请使用最新版本的 Chrome、Edge、Firefox 或 Safari，或改为上传已有录音。',
+  recordingFailedTitle: '录音失败',
+  recordingFailedHelp: '访问麦克风时出错。请重试，或改为上传录音。',
+  retry: '重试',
+  useFileUpload: '改为上传文件',
+  dismiss: '关闭',
+
+  // Recording
+  voiceRecording: '语音录制',
+  recordingInstructions: '请自然地讲述您的一天、描述一张图片或讲一个简短的故事。尽量在整个录音过程中持续说话。',
+  recordingDuration: '录音时长：',
+  microphone: '麦克风：',
+  systemDefaultMicrophone: '系统默认',
+  microphoneNumber: '麦克风 {index}',
+  testMicrophone: '测试麦克风',
+  stopMicrophoneTest: '停止测试',
+  inputLevel: '麦克风输入电平',
+  durationOption: '{seconds, plural, other {# 秒}}',
+  maxRecordingDuration: '最长时长：',
+  autoStopOnSilence: '自动停止',
+  silenceLength: '停止前的静音时长',
+  silenceOption: '静音 {seconds} 秒后',
+  speechCaptured: '已采集语音：{voiced, duration} / {required, duration}',
+  waitingForSilence: '已采集足够的语音。静音 {seconds} 秒后录音将自动停止。',
+  startRecording: '开始录音',
+  stopRecording: '停止录音（{elapsed, duration} / {total, duration}）',
+  recordingInProgress: '正在录音...',
+  recordingPaused: '录音已暂停',
+  pauseRecording: '暂停',
+  resumeRecording: '继续',
+  recordingSegment: '第 {segment} 段',
+  requestingMicrophone: '正在等待麦克风权限...',
+  finalizingRecording: '正在完成录音...',
+
+  // Calibration
+  calibrationTitle: '环境检查（可选）',
+  calibrationDescription: '录音前测量背景噪声和麦克风电平，以便及早发现不可靠的录音条件。',
+  runCalibration: '检查环境',
+  rerunCalibration: '重新检查',
+  cancel: '取消',
+  calibrationStaySilent: '请保持安静 {seconds} 秒…',
+  calibrationSayPhrase: '现在请患者大声朗读这句话：',
+  calibrationPhrase: '太阳在宁静的村庄上空升起，鸟儿开始歌唱。',
+  calibrationPassed: '录音条件良好。',
+  calibrationWarningTitle: '录音条件有待改善',
+  calibrationBlockedTitle: '录音条件不适合',
+  calibrationBlockedHelp: '请先解决上述问题并重新检查，然后再录音。',
+  calibrationNoSpeech: '朗读示例句子时未检测到语音。请确认选择了正确的麦克风，并且患者离麦克风足够近。',
+  calibrationNoisy: '背景噪声过大。请关闭风扇、电视或其他噪声源，关好门窗，或换到更安静的房间。',
+  calibrationClipping: '声音出现失真。请让麦克风离患者远一些，或在系统声音设置中降低输入音量。',
+  calibrationTooQuiet: '声音很小。请让麦克风靠近患者，或在系统声音设置中提高输入音量。',
+  calibrationMetrics:
+    '本底噪声 {noise, number, integer} dBFS · 语音 {speech, number, integer} dBFS · 信噪比 {snr, number, integer} dB · 削波 {clipping, number, percent}',
+  noiseReducedCalibration: '已根据环境检查时测得的房间噪声降低背景噪声。',
+  noiseReducedSilence: '已根据开始说话前的静音段降低背景噪声。',
+  loudnessNormalized: '响度已从 {from, number, integer} LUFS 归一化为 {to, number, integer} LUFS。',
+
+  // Upload
+  audioUpload: '上传音频',
+  uploadInstructions: '上传已有的语音录音（WAV、MP3、M4A/AAC、OGG/Opus、WebM 或 FLAC）。',
+  uploadButton: '选择音频文件',
+  dropZoneHint: '将一个或多个音频文件拖放到此处。多个文件将依次分析。',
+  uploadQueue: '上传队列',
+  queueFile: '文件',
+  queueStatus: '状态',
+  queueProgress: '进度',
+  queueProgressLabel: '{name} 的进度',
+  queueResult: '结果',
+  queueActions: '操作',
+  queueResultSummary: '得分 {score}，风险{risk, select, High {高} Moderate {中} other {低}}',
+  uploadQueued: '等待中',
+  uploadDecoding: '正在读取文件',
+  uploadAnalyzing: '正在分析',
+  uploadDone: '已完成',
+  uploadFailed: '失败',
+  uploadCancelled: '已取消',
+  viewResult: '查看结果',
+  removeFile: '移除',
+  fileUploaded: '已上传文件：{name}',
+  decodingAudio: '正在读取音频文件...',
+  fileDetails:
+    '{format} · {duration, duration} · {sampleRate} · {channels, plural, =1 {单声道} =2 {立体声} other {# 声道}}',
+  sampleRateValue: '{rate, number} kHz',
+  unknownValue: '采样率未知',
+
+  // Review
+  reviewRecording: '检查录音',
+  reviewUpload: '检查上传的音频',
+  reviewInstructions: '分析前请先回放。拖动手柄可裁剪开头和结尾的静音或操作人员的讲话。',
+  trimStart: '裁剪起点',
+  trimEnd: '裁剪终点',
+  trimRange: '保留 {start, number} 秒 – {end, number} 秒（{length, number} 秒）',
+  playSelection: '播放所选片段',
+  analyzeRecording: '分析',
+  reRecord: '重新录制',
+  chooseAnotherFile: '选择其他文件',
+  preprocessingTitle: '音频清理',
+  preprocessingDescription: '在分析前应用，以免背景噪声和录音音量影响测量结果。',
+  removeDcOffset: '去除直流偏移',
+  highPassFilter: '滤除低频隆隆声',
+  noiseReduction: '降低背景噪声',
+  loudnessNormalization: '响度归一化',
+  loudnessTarget: '目标响度',
+  loudnessOption: '{lufs, number, integer} LUFS',
+  listenTo: '试听',
+  listenOriginal: '原始',
+  listenProcessed: '清理后',
+  preparingProcessed: '正在准备清理后的音频...',
+
+  // Results
+  analyzing: '正在分析语音样本...',
+  stageDecoding: '正在解码音频',
+  stageQuality: '正在检查录音质量',
+  stagePreprocessing: '正在清理音频',
+  stageVoiceActivity: '正在检测语音',
+  stageAcoustic: '正在测量声学特征',
+  stageScoring: '正在计算得分',
+  analysisResults: '分析结果',
+  telephoneMode: '电话模式',
+  telephoneModeDescription:
+    '此录音被识别为窄带电话音频。特征在 {low, number, integer}–{high, number, integer} Hz 范围内测量，并与电话标准进行比较。',
+  alzheimerDetected: '检测到阿尔茨海默病迹象',
+  alzheimerNotDetected: '未检测到阿尔茨海默病迹象',
+  detectedMessage: '该语音样本显示出与认知衰退相关的模式。请咨询医疗专业人员进行全面评估。',
+  notDetectedMessage: '该语音样本未显示出与认知衰退相关的明显模式。',
+  overallScore: '综合认知评分：{score, number}/100',
+  scoreInfo: '所有语音生物标志物的加权组合。分数越高，表示语音模式越接近健康对照组。',
+  riskLevel: '风险等级：{risk, select, High {高} Moderate {中} other {低}}',
+  analysisConfidence: '分析置信度：{confidence, number, percent}',
+  environmentCheck: '环境检查：{metrics}',
+  voiceBiomarkers: '语音生物标志物',
+  biomarkersInfo: '生物标志物是可测量的语音特征。每项指标按其权重计入综合评分。',
+  weight: '权重：{weight, number, percent}',
+
+  // Biomarkers
+  phonemeArticulation: '音素清晰度',
+  phonemeArticulationDesc: '辅音和元音发音的准确性',
+  pauseFrequency: '停顿频率',
+  pauseFrequencyDesc: '言语被无声停顿打断的频率',
+  lexicalDiversity: '词汇多样性',
+  lexicalDiversityDesc: '所用词汇的丰富程度',
+  speechRateConsistency: '语速一致性',
+  speechRateConsistencyDesc: '语速随时间的稳定程度',
+  semanticCoherenceBio: '语义连贯性',
+  semanticCoherenceBioDesc: '前后想法之间的逻辑联系',
+  prosodicVariation: '韵律变化',
+  prosodicVariationDesc: '音高和语调的自然变化',
+  voiceTremor: '声音震颤',
+  voiceTremorDesc: '音高和响度的不自主波动',
+  wordFindingDelay: '找词延迟',
+  wordFindingDelayDesc: '寻找词语时的犹豫',
+  voiceMeasurements: '嗓音测量',
+  measurePitch: '音高：平均 {mean, number, integer} Hz，波动 {std, number, integer} Hz',
+  measureHnr: '谐噪比：{value, number, integer} dB',
+  measureJitter: '基频微扰（Jitter）：{value, number, percent}',
+  measureShimmer: '振幅微扰（Shimmer）：{value, number, percent}',
+  rateMeasurements: '语速',
+  measureSpeechRate: '语速：总体每秒 {rate, number} 个音节',
+  measureArticulationRate: '发音速率：每秒说话时间 {rate, number} 个音节',
+  pauseMeasurements: '停顿测量',
+  measurePauseCount: '{count, plural, =0 {无停顿} other {# 次停顿}}，每分钟 {rate, number, integer} 次',
+  measurePhonation: '说话时间占 {ratio, number, percent}',
+  measurePauseLength: '停顿时长：平均 {mean, number} 秒，中位数 {median, number} 秒',
+  measureLongPauses: '{count, plural, =0 {无长停顿} other {# 次长停顿}}（{threshold, number} 秒及以上）',
+  measureOperatorPauses: '录音暂停处的 {count, plural, other {# 段静音}}未计入',
+  pauseDistribution: '停顿时长分布',
+  pauseBin: '{from, number}–{to, number} 秒',
+  pauseBinOpen: '{from, number} 秒以上',
+  recordingQuality: '录音质量',
+  qualityScore: '总体质量：{score, number, percent}',
+  qualitySnr: '信噪比：{value, number, integer} dB',
+  qualityClipping: '削波：占语音的 {value, number, percent}',
+  qualityReverb: '混响时间：{value, number} 秒',
+  qualityBandwidth: '带宽：{value, number, integer} Hz',
+  qualitySpeech: '语音：{value, duration}',
+  qualityDropouts: '{count, plural, =0 {无信号中断} other {# 次信号中断}}',
+  qualityIssueNoisy: '背景噪声相对人声过高。',
+  qualityIssueClipping: '人声因削波而失真。',
+  qualityIssueReverberant: '房间回声较大，使语音模糊。',
+  qualityIssueShort: '可测量的语音较少。',
+  qualityIssueDropouts: '信号有时中断。',
+  qualityIssueNarrowband: '音频为电话带宽，缺少高频细节。',
+
+  // Indicators
+  speechPatternAnalysis: '语音模式分析',
+  speechClarity: '言语清晰度',
+  wordRecall: '词语回忆',
+  sentenceStructure: '句子结构',
+  pausePatterns: '停顿模式',
+  prosody: '韵律',
+  articulationRate: '发音速率',
+  semanticCoherence: '语义连贯性',
+  notMeasured: '此样本未测量',
+
+  // Recommendations
+  recommendations: '建议',
+  nextSteps: '后续步骤',
+  highRiskRecommendation: '我们强烈建议您预约神经科医生或记忆门诊，进行全面的认知评估。',
+  moderateRiskRecommendation: '建议与您的医生讨论这些结果，并在 3 至 6 个月后再次筛查以跟踪变化。',
+  lowRiskRecommendation: '目前无需立即采取措施。请保持积极的生活方式，并每年进行一次筛查。',
+
+  // Comments
+  leaveComment: '留言',
+  commentInstructions: '分享您对分析的意见或报告问题。',
+  commentPlaceholder: '在此输入您的留言...',
+  submitComment: '提交留言',
+  commentThankYou: '感谢您的反馈！',
+
+  // Disclaimer
+  disclaimer: '医疗免责声明',
+  disclaimerText: '本工具仅用于筛查和研究目的，不提供医学诊断。请务必咨询合格的医疗专业人员。',
+};
+
+export default zh;
@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_PREPROCESSING, type PreprocessingOptions } from '@/lib/audio/preprocess';
+
+interface PreprocessingSettingsState {
+  options: PreprocessingOptions;
+  setOptions: (change: Partial<PreprocessingOptions>) => void;
+}
+
+// Loudness targets offered for normalisation, in LUFS
+export const LOUDNESS_TARGETS = [-16, -20, -23];
+
+// Applies to recordings and uploads alike, so measurements stay comparable between sessions
+export const usePreprocessingSettingsStore = create<PreprocessingSettingsState>()(
+  persist(
+    (set) => ({
+      options: DEFAULT_PREPROCESSING,
+      setOptions: (change) => set((state) => ({ options: { ...state.options, ...change } })),
+    }),
+    {
+      name: 'preprocessing-settings',
+      partialize: (state) => ({ options: state.options }),
+    }
+  )
+);
@@ -0,0 +1,40 @@
+import { mapMessageText } from '@/lib/icu';
+import type { Catalog } from '@/lib/i18n';
+
+// Pseudo-localization: accents every letter, pads each message by ~40% and
+// brackets it, so truncation and hard-coded strings stand out in the UI
+
+const accents: Record<string, string> = {
+  a: 'ȧ', b: 'ƀ', c: 'ƈ', d: 'ḓ', e: 'ḗ', f: 'ƒ', g: 'ɠ', h: 'ħ', i: 'ī', j: 'ĵ',
+  k: 'ķ', l: 'ŀ', m: 'ḿ', n: 'ƞ', o: 'ǿ', p: 'ƥ', q: 'ɋ', r: 'ř', s: 'ş', t: 'ŧ',
+  u: 'ŭ', v: 'ṽ', w: 'ẇ', x: 'ẋ', y: 'ẏ', z: 'ẑ',
+  A: 'Ȧ', B: 'Ɓ', C: 'Ƈ', D: 'Ḓ', E: 'Ḗ', F: 'Ƒ', G: 'Ɠ', H: 'Ħ', I: 'Ī', J: 'Ĵ',
+  K: 'Ķ', L: 'Ŀ', M: 'Ḿ', N: 'Ƞ', O: 'Ǿ', P: 'Ƥ', Q: 'Ɋ', R: 'Ř', S: 'Ş', T: 'Ŧ',
+  U: 'Ŭ', V: 'Ṽ', W: 'Ẇ', X: 'Ẋ', Y: 'Ẏ', Z: 'Ẑ',
+};
+
+const EXPANSION = 0.4;
+const PADDING_WORDS = ['ǿƞḗ', 'ŧẇǿ', 'ŧħřḗḗ', 'ƒǿŭř', 'ƒīṽḗ', 'şīẋ', 'şḗṽḗƞ', 'ḗīɠħŧ'];
+
+function padding(length: number): string {
+  let result = '';
+  for (let i = 0; result.length < length; i++) {
+    result += ` ${PADDING_WORDS[i % PADDING_WORDS.length]}`;
+  }
+  return result;
+}
+
+export function pseudolocalize(message: string): string {
+  let textLength = 0;
+  const accented = mapMessageText(message, (text) => {
+    textLength += text.length;
+    return text.replace(/[a-zA-Z]/g, (char) => accents[char]);
+  });
+  return `[${accented}${padding(Math.ceil(textLength * EXPANSION))}]`;
+}
+
+export function pseudolocalizeCatalog(catalog: Record<string, string>): Catalog {
+  return Object.fromEntries(
+    Object.entries(catalog).map(([key, message]) => [key, pseudolocalize(message)])
+  );
+}
@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface RecordingSettingsState {
+  // Preferred microphone; null uses the system default input
+  deviceId: string | null;
+  // Stop once the speaker has been silent for `silenceSeconds` after enough speech
+  autoStopOnSilence: boolean;
+  silenceSeconds: number;
+  setDeviceId: (deviceId: string | null) => void;
+  setAutoStopOnSilence: (enabled: boolean) => void;
+  setSilenceSeconds: (seconds: number) => void;
+}
+
+// Remembered per browser, since device ids are only stable within one origin and profile
+export const useRecordingSettingsStore = create<RecordingSettingsState>()(
+  persist(
+    (set) => ({
+      deviceId: null,
+      autoStopOnSilence: false,
+      silenceSeconds: 3,
+      setDeviceId: (deviceId) => set({ deviceId }),
+      setAutoStopOnSilence: (autoStopOnSilence) => set({ autoStopOnSilence }),
+      setSilenceSeconds: (silenceSeconds) => set({ silenceSeconds }),
+    }),
+    {
+      name: 'recording-settings',
+      partialize: (state) => ({
+        deviceId: state.deviceId,
+        autoStopOnSilence: state.autoStopOnSilence,
+        silenceSeconds: state.silenceSeconds,
+      }),
+    }
+  )
+);
+
+// getUserMedia constraints selecting the preferred microphone. `exact` makes a
+// missing device fail instead of silently recording from another one
+export function deviceConstraints(deviceId: string | null): MediaTrackConstraints {
+  return deviceId ? { deviceId: { exact: deviceId } } : {};
+}